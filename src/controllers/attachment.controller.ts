@@ -0,0 +1,163 @@
+/**
+ * Controller de Anexos
+ * Gerencia arquivos vinculados aos lançamentos (boletos, comprovantes, notas fiscais)
+ */
+
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { storage } from '../lib/storage';
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Nome original do arquivo
+ * O multer entrega o nome em latin1; converte para manter acentos
+ */
+function getOriginalFileName(file: Express.Multer.File) {
+  return Buffer.from(file.originalname, 'latin1').toString('utf8');
+}
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Anexa um arquivo ao lançamento (multipart, campo "file")
+ */
+export const uploadAttachment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Lançamento não encontrado' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo é obrigatório' });
+    }
+
+    const storageKey = `${userId}/${crypto.randomUUID()}`;
+    await storage.save(storageKey, req.file.buffer);
+
+    try {
+      const attachment = await prisma.attachment.create({
+        data: {
+          fileName: getOriginalFileName(req.file),
+          mimeType: req.file.mimetype,
+          size: req.file.size,
+          storageKey,
+          userId,
+          transactionId: transaction.id,
+        },
+      });
+
+      return res.status(201).json(attachment);
+    } catch (error) {
+      // Sem o registro no banco o arquivo ficaria órfão
+      await storage.delete(storageKey);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Erro ao anexar arquivo:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Lista os anexos do lançamento
+ */
+export const listAttachments = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Lançamento não encontrado' });
+    }
+
+    const attachments = await prisma.attachment.findMany({
+      where: { transactionId: id, userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return res.json(attachments);
+  } catch (error) {
+    console.error('Erro ao listar anexos:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Faz o download de um anexo
+ */
+export const downloadAttachment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id, attachmentId } = req.params;
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, transactionId: id, userId },
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Anexo não encontrado' });
+    }
+
+    let file;
+    try {
+      file = await storage.read(attachment.storageKey);
+    } catch {
+      return res.status(404).json({ error: 'Arquivo do anexo não encontrado' });
+    }
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size.toString());
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+    );
+
+    file.on('error', (error) => {
+      console.error('Erro ao enviar anexo:', error);
+      res.destroy(error);
+    });
+    file.pipe(res);
+  } catch (error) {
+    console.error('Erro ao baixar anexo:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Remove um anexo e apaga o arquivo do armazenamento
+ */
+export const deleteAttachment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id, attachmentId } = req.params;
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, transactionId: id, userId },
+    });
+
+    if (!attachment) {
+      return res.status(404).json({ error: 'Anexo não encontrado' });
+    }
+
+    await prisma.attachment.delete({ where: { id: attachment.id } });
+    await storage.delete(attachment.storageKey);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao remover anexo:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -9,6 +9,7 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
+import { currencySchema } from '../lib/currencies';
 import { sendPasswordResetEmail } from '../services/email.service';
 
 // ==================== SCHEMAS DE VALIDAÇÃO ====================
@@ -33,6 +34,10 @@ const resetPasswordSchema = z.object({
   password: z.string().min(6, 'Senha deve ter no mínimo 6 caracteres'),
 });
 
+const updateMeSchema = z.object({
+  baseCurrency: currencySchema, // Moeda dos totais do resumo, relatórios e projeções
+});
+
 // ==================== FUNÇÕES AUXILIARES ====================
 
 /**
@@ -78,6 +83,7 @@ export const register = async (req: Request, res: Response) => {
         id: true,
         name: true,
         email: true,
+        baseCurrency: true,
         createdAt: true,
       },
     });
@@ -130,6 +136,7 @@ export const login = async (req: Request, res: Response) => {
         id: user.id,
         name: user.name,
         email: user.email,
+        baseCurrency: user.baseCurrency,
         createdAt: user.createdAt,
       },
       token,
@@ -160,6 +167,7 @@ export const me = async (req: Request, res: Response) => {
         id: true,
         name: true,
         email: true,
+        baseCurrency: true,
         createdAt: true,
       },
     });
@@ -175,6 +183,36 @@ export const me = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Atualiza as preferências do usuário autenticado (moeda base)
+ */
+export const updateMe = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = updateMeSchema.parse(req.body);
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data,
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        baseCurrency: true,
+        createdAt: true,
+      },
+    });
+
+    return res.json(user);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao atualizar usuário:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
 /**
  * Solicita recuperação de senha
  * SEGURANÇA:
@@ -6,6 +6,9 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { buildCategoryTree, getDescendantIds } from '../lib/categories';
+import { mergeCategories } from '../services/category.service';
 
 // ==================== SCHEMAS DE VALIDAÇÃO ====================
 
@@ -15,6 +18,7 @@ const createCategorySchema = z.object({
   type: z.enum(['INCOME', 'EXPENSE'], {
     errorMap: () => ({ message: 'Tipo deve ser INCOME ou EXPENSE' }),
   }),
+  parentId: z.string().optional(),
   color: z.string().default('#3B82F6'),
   icon: z.string().default('tag'),
 });
@@ -24,19 +28,64 @@ const updateCategorySchema = z.object({
   description: z.string().optional(),
   color: z.string().optional(),
   icon: z.string().optional(),
+  parentId: z.string().optional().nullable(), // null leva a categoria para a raiz
   isActive: z.boolean().optional(),
 });
 
+const deleteCategorySchema = z.object({
+  targetCategoryId: z.string().optional(),
+});
+
+const mergeCategorySchema = z.object({
+  targetCategoryId: z.string().min(1, 'Categoria de destino é obrigatória'),
+});
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Confere a categoria pai: do usuário, ativa, do mesmo tipo e, na edição, fora da própria subárvore
+ */
+async function assertValidParent(
+  userId: string,
+  parentId: string,
+  type: string,
+  categoryId?: string
+) {
+  const categories = await prisma.category.findMany({
+    where: { userId },
+    select: { id: true, type: true, parentId: true, isActive: true },
+  });
+
+  const parent = categories.find((category) => category.id === parentId);
+
+  if (!parent) {
+    throw new AppError('Categoria pai não encontrada', 404);
+  }
+
+  if (!parent.isActive) {
+    throw new AppError('Categoria pai está inativa');
+  }
+
+  if (parent.type !== type) {
+    throw new AppError('Categoria pai deve ser do mesmo tipo da categoria');
+  }
+
+  if (categoryId && getDescendantIds([categoryId], categories).includes(parentId)) {
+    throw new AppError('Categoria pai não pode ser a própria categoria ou uma de suas subcategorias');
+  }
+}
+
 // ==================== CONTROLLERS ====================
 
 /**
  * Lista todas as categorias do usuário
  * Pode filtrar por tipo (INCOME ou EXPENSE)
+ * Com tree=true, retorna as categorias raiz com as subcategorias aninhadas (children)
  */
 export const listCategories = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const { type } = req.query;
+    const { type, tree } = req.query;
 
     const categories = await prisma.category.findMany({
       where: {
@@ -46,6 +95,10 @@ export const listCategories = async (req: Request, res: Response) => {
       orderBy: { name: 'asc' },
     });
 
+    if (tree === 'true') {
+      return res.json(buildCategoryTree(categories));
+    }
+
     return res.json(categories);
   } catch (error) {
     console.error('Erro ao listar categorias:', error);
@@ -54,7 +107,7 @@ export const listCategories = async (req: Request, res: Response) => {
 };
 
 /**
- * Busca uma categoria específica
+ * Busca uma categoria específica (com a categoria pai e as subcategorias)
  */
 export const getCategory = async (req: Request, res: Response) => {
   try {
@@ -66,6 +119,10 @@ export const getCategory = async (req: Request, res: Response) => {
         id,
         userId,
       },
+      include: {
+        parent: true,
+        children: { orderBy: { name: 'asc' } },
+      },
     });
 
     if (!category) {
@@ -80,13 +137,17 @@ export const getCategory = async (req: Request, res: Response) => {
 };
 
 /**
- * Cria uma nova categoria
+ * Cria uma nova categoria (opcionalmente como subcategoria de outra do mesmo tipo)
  */
 export const createCategory = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const data = createCategorySchema.parse(req.body);
 
+    if (data.parentId) {
+      await assertValidParent(userId, data.parentId, data.type);
+    }
+
     const category = await prisma.category.create({
       data: {
         ...data,
@@ -99,6 +160,9 @@ export const createCategory = async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao criar categoria:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -122,6 +186,10 @@ export const updateCategory = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Categoria não encontrada' });
     }
 
+    if (data.parentId) {
+      await assertValidParent(userId, data.parentId, category.type, id);
+    }
+
     const updatedCategory = await prisma.category.update({
       where: { id },
       data,
@@ -132,6 +200,9 @@ export const updateCategory = async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao atualizar categoria:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -139,11 +210,14 @@ export const updateCategory = async (req: Request, res: Response) => {
 
 /**
  * Deleta uma categoria
+ * Com ?targetCategoryId=uuid, os lançamentos, divisões e subcategorias passam antes
+ * para a categoria de destino (do mesmo tipo); sem destino, só exclui categorias sem vínculos
  */
 export const deleteCategory = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id } = req.params;
+    const { targetCategoryId } = deleteCategorySchema.parse(req.query);
 
     // Verifica se a categoria pertence ao usuário
     const category = await prisma.category.findFirst({
@@ -154,14 +228,36 @@ export const deleteCategory = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Categoria não encontrada' });
     }
 
-    // Verifica se há transações usando esta categoria
-    const transactionsCount = await prisma.transaction.count({
-      where: { categoryId: id },
-    });
+    if (targetCategoryId) {
+      const target = await prisma.category.findFirst({
+        where: { id: targetCategoryId, userId },
+      });
+
+      if (!target) {
+        return res.status(404).json({ error: 'Categoria de destino não encontrada' });
+      }
+
+      await prisma.$transaction((tx) => mergeCategories(tx, category, target));
+
+      return res.status(204).send();
+    }
+
+    // Verifica se há transações (ou divisões de transações) usando esta categoria
+    const [transactionsCount, splitsCount, childrenCount] = await Promise.all([
+      prisma.transaction.count({ where: { categoryId: id } }),
+      prisma.transactionSplit.count({ where: { categoryId: id } }),
+      prisma.category.count({ where: { parentId: id } }),
+    ]);
 
-    if (transactionsCount > 0) {
+    if (transactionsCount > 0 || splitsCount > 0) {
       return res.status(400).json({
-        error: 'Não é possível deletar categoria com lançamentos vinculados',
+        error: 'Não é possível deletar categoria com lançamentos vinculados. Informe targetCategoryId para movê-los',
+      });
+    }
+
+    if (childrenCount > 0) {
+      return res.status(400).json({
+        error: 'Não é possível deletar categoria com subcategorias. Informe targetCategoryId para movê-las',
       });
     }
 
@@ -171,7 +267,60 @@ export const deleteCategory = async (req: Request, res: Response) => {
 
     return res.status(204).send();
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao deletar categoria:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
+
+/**
+ * Une a categoria à categoria de destino (do mesmo tipo)
+ * Lançamentos, divisões e subcategorias passam para o destino, que mantém nome, cor e ícone,
+ * e a categoria de origem é excluída
+ */
+export const mergeCategory = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { targetCategoryId } = mergeCategorySchema.parse(req.body);
+
+    const [source, target] = await Promise.all([
+      prisma.category.findFirst({ where: { id, userId } }),
+      prisma.category.findFirst({ where: { id: targetCategoryId, userId } }),
+    ]);
+
+    if (!source) {
+      return res.status(404).json({ error: 'Categoria não encontrada' });
+    }
+
+    if (!target) {
+      return res.status(404).json({ error: 'Categoria de destino não encontrada' });
+    }
+
+    const moved = await prisma.$transaction((tx) => mergeCategories(tx, source, target));
+
+    const category = await prisma.category.findUnique({
+      where: { id: target.id },
+      include: {
+        parent: true,
+        children: { orderBy: { name: 'asc' } },
+      },
+    });
+
+    return res.json({ category, moved });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao unir categorias:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
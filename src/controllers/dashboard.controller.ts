@@ -5,10 +5,19 @@
 
 import { Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { sumMoney } from '../lib/money';
+import { getCategoryLines } from '../lib/splits';
+import { sumByCategoryTree } from '../lib/categories';
+import { NON_SPENDABLE_WALLET_TYPES, WALLET_TYPES, WalletType } from '../lib/wallets';
+import { getCurrencyConverter } from '../services/exchange-rate.service';
 
 /**
  * Retorna o resumo financeiro do usuário
- * Inclui: saldo total, receitas, despesas, lançamentos pendentes
+ * Inclui: saldo total (e por tipo de carteira), disponível para gastar,
+ * receitas, despesas, lançamentos pendentes
+ * Totais na moeda base do usuário: saldos pela cotação atual e lançamentos pela
+ * cotação da data de vencimento
  */
 export const getSummary = async (req: Request, res: Response) => {
   try {
@@ -39,60 +48,39 @@ export const getSummary = async (req: Request, res: Response) => {
     const now = new Date(); // Para verificar lançamentos vencidos
     
     const [
-      wallets,
-      totalIncome,
-      totalExpense,
-      paidIncome,
-      paidExpense,
+      walletList,
+      periodTransactions,
       pendingTransactions,
       overdueTransactions,
     ] = await Promise.all([
       // Saldo total de todas as carteiras
       prisma.wallet.findMany({
         where: { userId, isActive: true },
-        select: { id: true, name: true, balance: true, color: true, icon: true },
-      }),
-
-      // Total de receitas do período
-      prisma.transaction.aggregate({
-        where: {
-          userId,
-          type: 'INCOME',
-          dueDate: { gte: startDate, lte: endDate },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          currency: true,
+          balance: true,
+          creditLimit: true,
+          color: true,
+          icon: true,
         },
-        _sum: { amount: true },
       }),
 
-      // Total de despesas do período
-      prisma.transaction.aggregate({
+      // Valor e valor pago (soma dos pagamentos) das receitas e despesas do período
+      prisma.transaction.findMany({
         where: {
           userId,
-          type: 'EXPENSE',
           dueDate: { gte: startDate, lte: endDate },
         },
-        _sum: { amount: true },
-      }),
-
-      // Receitas pagas do período
-      prisma.transaction.aggregate({
-        where: {
-          userId,
-          type: 'INCOME',
-          isPaid: true,
-          dueDate: { gte: startDate, lte: endDate },
-        },
-        _sum: { amount: true },
-      }),
-
-      // Despesas pagas do período
-      prisma.transaction.aggregate({
-        where: {
-          userId,
-          type: 'EXPENSE',
-          isPaid: true,
-          dueDate: { gte: startDate, lte: endDate },
+        select: {
+          type: true,
+          amount: true,
+          paidAmount: true,
+          dueDate: true,
+          wallet: { select: { currency: true } },
         },
-        _sum: { amount: true },
       }),
 
       // Lançamentos pendentes (não pagos)
@@ -114,38 +102,86 @@ export const getSummary = async (req: Request, res: Response) => {
       }),
     ]);
 
+    const converter = await getCurrencyConverter(prisma, userId);
+
+    // Saldo de cada carteira na moeda base (convertedBalance), pela cotação atual
+    const wallets = walletList.map((wallet) => ({
+      ...wallet,
+      convertedBalance: converter.convert(wallet.balance, wallet.currency, now),
+    }));
+
     // Calcula o saldo total de todas as carteiras
-    const totalBalance = wallets.reduce((sum, wallet) => sum + wallet.balance, 0);
+    const totalBalance = sumMoney(wallets.map((wallet) => wallet.convertedBalance));
+
+    // Totais por tipo de carteira (apenas tipos com carteiras)
+    const totalsByType = WALLET_TYPES.map((type) => {
+      const typeWallets = wallets.filter((wallet) => wallet.type === type);
+      return {
+        type,
+        total: sumMoney(typeWallets.map((wallet) => wallet.convertedBalance)),
+        count: typeWallets.length,
+      };
+    }).filter((group) => group.count > 0);
+
+    // Disponível para gastar: exclui poupanças
+    const availableToSpend = sumMoney(
+      wallets
+        .filter((wallet) => !NON_SPENDABLE_WALLET_TYPES.includes(wallet.type as WalletType))
+        .map((wallet) => wallet.convertedBalance)
+    );
+
+    // Soma um campo dos lançamentos do tipo, convertido pela cotação do vencimento
+    const sumConverted = (type: string, field: 'amount' | 'paidAmount') =>
+      sumMoney(
+        periodTransactions
+          .filter((transaction) => transaction.type === type)
+          .map((transaction) =>
+            converter.convert(transaction[field], transaction.wallet.currency, transaction.dueDate)
+          )
+      );
+
+    const incomeTotal = sumConverted('INCOME', 'amount');
+    const incomePaid = sumConverted('INCOME', 'paidAmount');
+    const expenseTotal = sumConverted('EXPENSE', 'amount');
+    const expensePaid = sumConverted('EXPENSE', 'paidAmount');
 
     return res.json({
+      baseCurrency: converter.baseCurrency,
       period: {
         month: targetMonth,
         year: targetYear,
       },
       wallets,
       totalBalance,
+      totalsByType,
+      availableToSpend,
       income: {
-        total: totalIncome._sum.amount || 0,
-        paid: paidIncome._sum.amount || 0,
-        pending: (totalIncome._sum.amount || 0) - (paidIncome._sum.amount || 0),
+        total: incomeTotal,
+        paid: incomePaid,
+        pending: incomeTotal.minus(incomePaid),
       },
       expense: {
-        total: totalExpense._sum.amount || 0,
-        paid: paidExpense._sum.amount || 0,
-        pending: (totalExpense._sum.amount || 0) - (paidExpense._sum.amount || 0),
+        total: expenseTotal,
+        paid: expensePaid,
+        pending: expenseTotal.minus(expensePaid),
       },
-      balance: (paidIncome._sum.amount || 0) - (paidExpense._sum.amount || 0),
+      balance: incomePaid.minus(expensePaid),
       pendingTransactions,
       overdueTransactions,
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao buscar resumo:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
 
 /**
- * Retorna lançamentos próximos do vencimento
+ * Retorna lançamentos próximos do vencimento e transferências agendadas no período
+ * Cada item indica o tipo (kind: TRANSACTION ou TRANSFER); transferências usam a data
+ * agendada como dueDate para a ordenação
  */
 export const getUpcoming = async (req: Request, res: Response) => {
   try {
@@ -156,38 +192,59 @@ export const getUpcoming = async (req: Request, res: Response) => {
     const futureDate = new Date();
     futureDate.setDate(futureDate.getDate() + parseInt(days as string));
 
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        userId,
-        isPaid: false,
-        dueDate: {
-          gte: now,
-          lte: futureDate,
+    const walletSelect = {
+      id: true,
+      name: true,
+      color: true,
+      icon: true,
+    };
+
+    const [transactions, transfers] = await Promise.all([
+      prisma.transaction.findMany({
+        where: {
+          userId,
+          isPaid: false,
+          dueDate: {
+            gte: now,
+            lte: futureDate,
+          },
         },
-      },
-      include: {
-        wallet: {
-          select: {
-            id: true,
-            name: true,
-            color: true,
-            icon: true,
+        include: {
+          wallet: { select: walletSelect },
+          category: {
+            select: {
+              id: true,
+              name: true,
+              color: true,
+              icon: true,
+              type: true,
+            },
           },
         },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            color: true,
-            icon: true,
-            type: true,
+        orderBy: { dueDate: 'asc' },
+      }),
+      prisma.transfer.findMany({
+        where: {
+          userId,
+          status: 'PENDING',
+          date: {
+            gte: now,
+            lte: futureDate,
           },
         },
-      },
-      orderBy: { dueDate: 'asc' },
-    });
+        include: {
+          fromWallet: { select: walletSelect },
+          toWallet: { select: walletSelect },
+        },
+      }),
+    ]);
+
+    const upcoming = [
+      ...transactions.map((transaction) => ({ kind: 'TRANSACTION', ...transaction })),
+      ...transfers.map((transfer) => ({ kind: 'TRANSFER', ...transfer, dueDate: transfer.date })),
+    ].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
 
-    return res.json(transactions);
+    return res.json(upcoming);
   } catch (error) {
     console.error('Erro ao buscar lançamentos próximos:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
@@ -196,6 +253,9 @@ export const getUpcoming = async (req: Request, res: Response) => {
 
 /**
  * Retorna estatísticas por categoria
+ * total/count são os lançamentos da própria categoria; rolledUpTotal/rolledUpCount incluem
+ * as subcategorias (categorias pai sem lançamentos diretos aparecem só com o acumulado)
+ * Os valores são convertidos para a moeda base pela cotação do vencimento de cada lançamento
  */
 export const getCategoryStats = async (req: Request, res: Response) => {
   try {
@@ -209,54 +269,71 @@ export const getCategoryStats = async (req: Request, res: Response) => {
     const startDate = new Date(targetYear, targetMonth - 1, 1);
     const endDate = new Date(targetYear, targetMonth, 0, 23, 59, 59);
 
-    const transactions = await prisma.transaction.findMany({
-      where: {
-        userId,
-        isPaid: true,
-        dueDate: { gte: startDate, lte: endDate },
-        ...(type && { type: type as string }),
-      },
-      include: {
-        category: {
-          select: {
-            id: true,
-            name: true,
-            color: true,
-            icon: true,
-            type: true,
-          },
+    const [transactions, categories] = await Promise.all([
+      prisma.transaction.findMany({
+        where: {
+          userId,
+          isPaid: true,
+          dueDate: { gte: startDate, lte: endDate },
+          ...(type && { type: type as string }),
         },
-      },
-    });
-
-    // Agrupa por categoria
-    const categoryMap = new Map<string, {
-      category: any;
-      total: number;
-      count: number;
-    }>();
-
-    transactions.forEach((transaction) => {
-      const categoryId = transaction.category.id;
-      const existing = categoryMap.get(categoryId);
-
-      if (existing) {
-        existing.total += transaction.amount;
-        existing.count += 1;
-      } else {
-        categoryMap.set(categoryId, {
-          category: transaction.category,
-          total: transaction.amount,
-          count: 1,
-        });
-      }
-    });
+        select: {
+          amount: true,
+          paidAmount: true,
+          dueDate: true,
+          categoryId: true,
+          splits: { select: { amount: true, categoryId: true } },
+          wallet: { select: { currency: true } },
+        },
+      }),
+      prisma.category.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          name: true,
+          color: true,
+          icon: true,
+          type: true,
+          parentId: true,
+        },
+      }),
+    ]);
 
-    const stats = Array.from(categoryMap.values())
-      .sort((a, b) => b.total - a.total);
+    const converter = await getCurrencyConverter(prisma, userId);
+
+    // Agrupa por categoria (lançamentos divididos contam em cada categoria das divisões)
+    // Cada categoria traz o total direto e o acumulado com as subcategorias
+    const lines = transactions.flatMap((transaction) =>
+      getCategoryLines({
+        ...transaction,
+        category: transaction.categoryId,
+        splits: transaction.splits.map((split) => ({ amount: split.amount, category: split.categoryId })),
+      }).map((line) => ({
+        categoryId: line.category,
+        values: { total: converter.convert(line.amount, transaction.wallet.currency, transaction.dueDate) },
+      }))
+    );
+    const totals = sumByCategoryTree(lines, ['total'], categories);
+
+    const stats = categories
+      .filter((category) => totals.has(category.id))
+      .map((category) => {
+        const { direct, rolledUp } = totals.get(category.id)!;
+        return {
+          category,
+          total: direct.total,
+          count: direct.count,
+          rolledUpTotal: rolledUp.total,
+          rolledUpCount: rolledUp.count,
+        };
+      })
+      .sort((a, b) => b.rolledUpTotal.comparedTo(a.rolledUpTotal));
 
     return res.json(stats);
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao buscar estatísticas por categoria:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -264,6 +341,11 @@ export const getCategoryStats = async (req: Request, res: Response) => {
 
 /**
  * Retorna projeção financeira dos próximos meses
+ * Lançamentos de cartão com fatura entram no mês de vencimento da fatura
+ * (pelo total da fatura), não na data de cada compra
+ * Transferências agendadas aparecem à parte (scheduledTransfers): movem dinheiro entre
+ * carteiras sem alterar o saldo total; as tarifas já entram nas despesas
+ * Valores na moeda base do usuário
  */
 export const getProjection = async (req: Request, res: Response) => {
   try {
@@ -272,6 +354,7 @@ export const getProjection = async (req: Request, res: Response) => {
 
     const projections = [];
     const now = new Date();
+    const converter = await getCurrencyConverter(prisma, userId);
 
     for (let i = 0; i < parseInt(months as string); i++) {
       const month = now.getMonth() + i;
@@ -281,36 +364,84 @@ export const getProjection = async (req: Request, res: Response) => {
       const startDate = new Date(year, adjustedMonth, 1);
       const endDate = new Date(year, adjustedMonth + 1, 0, 23, 59, 59);
 
-      const [income, expense] = await Promise.all([
-        prisma.transaction.aggregate({
+      const [transactions, invoiceTransactions, scheduledTransfers] = await Promise.all([
+        prisma.transaction.findMany({
           where: {
             userId,
-            type: 'INCOME',
+            invoiceId: null,
             dueDate: { gte: startDate, lte: endDate },
           },
-          _sum: { amount: true },
+          select: {
+            type: true,
+            amount: true,
+            dueDate: true,
+            wallet: { select: { currency: true } },
+          },
         }),
-        prisma.transaction.aggregate({
+        // Lançamentos das faturas que vencem no mês (despesas menos estornos)
+        prisma.transaction.findMany({
           where: {
             userId,
-            type: 'EXPENSE',
-            dueDate: { gte: startDate, lte: endDate },
+            invoice: { dueDate: { gte: startDate, lte: endDate } },
+          },
+          select: {
+            type: true,
+            amount: true,
+            dueDate: true,
+            wallet: { select: { currency: true } },
+          },
+        }),
+        prisma.transfer.findMany({
+          where: {
+            userId,
+            status: 'PENDING',
+            date: { gte: startDate, lte: endDate },
+          },
+          select: {
+            amount: true,
+            date: true,
+            fromWallet: { select: { currency: true } },
           },
-          _sum: { amount: true },
         }),
       ]);
 
+      // Valores na moeda base pela cotação do vencimento (meses futuros usam a última cotação)
+      const sumConverted = (items: typeof transactions, type: string) =>
+        sumMoney(
+          items
+            .filter((transaction) => transaction.type === type)
+            .map((transaction) =>
+              converter.convert(transaction.amount, transaction.wallet.currency, transaction.dueDate)
+            )
+        );
+
+      const invoicesTotal = sumConverted(invoiceTransactions, 'EXPENSE')
+        .minus(sumConverted(invoiceTransactions, 'INCOME'));
+
+      const incomeTotal = sumConverted(transactions, 'INCOME');
+      const expenseTotal = sumConverted(transactions, 'EXPENSE').plus(invoicesTotal);
+      const scheduledTransfersTotal = sumMoney(
+        scheduledTransfers.map((transfer) =>
+          converter.convert(transfer.amount, transfer.fromWallet.currency, transfer.date)
+        )
+      );
+
       projections.push({
         month: adjustedMonth + 1,
         year,
-        income: income._sum.amount || 0,
-        expense: expense._sum.amount || 0,
-        balance: (income._sum.amount || 0) - (expense._sum.amount || 0),
+        income: incomeTotal,
+        expense: expenseTotal,
+        invoices: invoicesTotal,
+        scheduledTransfers: scheduledTransfersTotal,
+        balance: incomeTotal.minus(expenseTotal),
       });
     }
 
     return res.json(projections);
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao buscar projeções:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -0,0 +1,291 @@
+/**
+ * Controller de Cotações
+ * Gerencia a tabela de câmbio do usuário, usada nas transferências entre moedas
+ * e na conversão dos totais para a moeda base
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { currencySchema } from '../lib/currencies';
+import {
+  CSV_DATE_FORMATS,
+  CsvDateFormat,
+  DecimalSeparator,
+  decodeCsv,
+  parseCsv,
+  parseCsvDate,
+  parseCsvNumber,
+} from '../lib/csv';
+
+// Casas decimais guardadas nas cotações
+const RATE_DECIMAL_PLACES = 8;
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const exchangeRateSchema = z.object({
+  fromCurrency: currencySchema,
+  toCurrency: currencySchema.optional(), // Padrão: moeda base do usuário
+  rate: z.number().positive('Cotação deve ser positiva')
+    .transform((rate) => new Prisma.Decimal(rate).toDecimalPlaces(RATE_DECIMAL_PLACES)),
+  date: z.string().transform((str) => new Date(str)),
+});
+
+// Campos multipart chegam como texto
+const importExchangeRatesSchema = z.object({
+  delimiter: z.string().length(1, 'Separador deve ter um único caractere').default(';'),
+  decimalSeparator: z.enum([',', '.'], {
+    errorMap: () => ({ message: 'Separador decimal deve ser "," ou "."' }),
+  }).default(','),
+  dateFormat: z.enum(CSV_DATE_FORMATS, {
+    errorMap: () => ({ message: `Formato de data deve ser ${CSV_DATE_FORMATS.join(', ')}` }),
+  }).default('dd/MM/yyyy'),
+});
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+interface RateInput {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: Prisma.Decimal;
+  date: Date;
+}
+
+interface RateRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+/**
+ * Grava a cotação do par na data (substitui a existente na mesma data)
+ */
+function saveRate(tx: Prisma.TransactionClient, userId: string, input: RateInput) {
+  return tx.exchangeRate.upsert({
+    where: {
+      userId_fromCurrency_toCurrency_date: {
+        userId,
+        fromCurrency: input.fromCurrency,
+        toCurrency: input.toCurrency,
+        date: input.date,
+      },
+    },
+    create: { ...input, userId },
+    update: { rate: input.rate },
+  });
+}
+
+/**
+ * Lê as cotações do arquivo: cabeçalho com as colunas date, fromCurrency, rate
+ * e, opcionalmente, toCurrency (padrão: moeda base)
+ * Retorna as cotações válidas e os erros de cada linha inválida
+ */
+function buildRateInputs(
+  content: string,
+  options: z.infer<typeof importExchangeRatesSchema>,
+  baseCurrency: string
+) {
+  const [header, ...rows] = parseCsv(content, options.delimiter);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const indexOf = (name: string) => columns.indexOf(name.toLowerCase());
+
+  const missing = ['date', 'fromCurrency', 'rate'].filter((name) => indexOf(name) < 0);
+  if (missing.length > 0) {
+    throw new AppError(`Coluna não encontrada no cabeçalho: ${missing.join(', ')}`);
+  }
+
+  const rates: RateInput[] = [];
+  const errors: RateRowError[] = [];
+
+  rows.forEach((row, i) => {
+    const rowNumber = i + 2; // Linha do arquivo (a primeira é o cabeçalho)
+    const cell = (name: string) => (indexOf(name) >= 0 ? row[indexOf(name)]?.trim() ?? '' : '');
+    const rowErrors: RateRowError[] = [];
+
+    const date = parseCsvDate(cell('date'), options.dateFormat as CsvDateFormat);
+    if (!date) {
+      rowErrors.push({ row: rowNumber, field: 'date', message: `Data inválida: "${cell('date')}"` });
+    }
+
+    const rate = parseCsvNumber(
+      cell('rate'),
+      options.decimalSeparator as DecimalSeparator,
+      RATE_DECIMAL_PLACES
+    );
+    if (!rate || rate.lessThanOrEqualTo(0)) {
+      rowErrors.push({ row: rowNumber, field: 'rate', message: `Cotação inválida: "${cell('rate')}"` });
+    }
+
+    const fromCurrency = currencySchema.safeParse(cell('fromCurrency'));
+    const toCurrency = currencySchema.safeParse(cell('toCurrency') || baseCurrency);
+
+    if (!fromCurrency.success) {
+      rowErrors.push({ row: rowNumber, field: 'fromCurrency', message: fromCurrency.error.errors[0].message });
+    }
+    if (!toCurrency.success) {
+      rowErrors.push({ row: rowNumber, field: 'toCurrency', message: toCurrency.error.errors[0].message });
+    }
+    if (fromCurrency.success && toCurrency.success && fromCurrency.data === toCurrency.data) {
+      rowErrors.push({ row: rowNumber, field: 'toCurrency', message: 'As moedas do par devem ser diferentes' });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    rates.push({
+      fromCurrency: fromCurrency.data!,
+      toCurrency: toCurrency.data!,
+      rate: rate!,
+      date: date!,
+    });
+  });
+
+  return { rates, errors };
+}
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Lista as cotações do usuário, das mais recentes para as mais antigas
+ * Filtro: ?currency=USD (pares em que a moeda aparece de qualquer lado)
+ */
+export const listExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { currency } = req.query;
+
+    const rates = await prisma.exchangeRate.findMany({
+      where: {
+        userId,
+        ...(currency && {
+          OR: [
+            { fromCurrency: (currency as string).toUpperCase() },
+            { toCurrency: (currency as string).toUpperCase() },
+          ],
+        }),
+      },
+      orderBy: [{ date: 'desc' }, { fromCurrency: 'asc' }],
+    });
+
+    return res.json(rates);
+  } catch (error) {
+    console.error('Erro ao listar cotações:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Cadastra a cotação de um par em uma data
+ * Uma cotação já cadastrada para o mesmo par e data é substituída
+ */
+export const saveExchangeRate = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = exchangeRateSchema.parse(req.body);
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { baseCurrency: true },
+    });
+    const toCurrency = data.toCurrency ?? user.baseCurrency;
+
+    if (data.fromCurrency === toCurrency) {
+      return res.status(400).json({ error: 'As moedas do par devem ser diferentes' });
+    }
+
+    const rate = await saveRate(prisma, userId, { ...data, toCurrency });
+
+    return res.status(201).json(rate);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao salvar cotação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Importa cotações de um arquivo CSV (multipart, campo "file")
+ * Cabeçalho com as colunas date, fromCurrency, rate e toCurrency (opcional)
+ * Grava todas as linhas ou nenhuma; cotações do mesmo par e data são substituídas
+ */
+export const importExchangeRates = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const options = importExchangeRatesSchema.parse(req.body ?? {});
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo é obrigatório' });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { baseCurrency: true },
+    });
+
+    const { rates, errors } = buildRateInputs(decodeCsv(req.file.buffer), options, user.baseCurrency);
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'O arquivo tem linhas inválidas; nenhuma cotação foi importada',
+        errors,
+      });
+    }
+
+    if (rates.length === 0) {
+      return res.status(400).json({ error: 'O arquivo não tem cotações' });
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const rate of rates) {
+          await saveRate(tx, userId, rate);
+        }
+      },
+      { timeout: 60000 }
+    );
+
+    return res.status(201).json({ imported: rates.length });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao importar cotações:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Deleta uma cotação
+ */
+export const deleteExchangeRate = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const rate = await prisma.exchangeRate.findFirst({
+      where: { id, userId },
+    });
+
+    if (!rate) {
+      return res.status(404).json({ error: 'Cotação não encontrada' });
+    }
+
+    await prisma.exchangeRate.delete({
+      where: { id },
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao deletar cotação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -0,0 +1,690 @@
+/**
+ * Controller de Importação
+ * Importa extratos bancários (OFX) em duas etapas: prévia do arquivo e confirmação
+ * Importa planilhas CSV com mapeamentos de colunas salvos por nome
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Category, CsvMapping, Wallet } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { positiveMoney } from '../lib/money';
+import { decodeOfx, parseOfx } from '../lib/ofx';
+import {
+  CSV_DATE_FORMATS,
+  DecimalSeparator,
+  decodeCsv,
+  parseCsv,
+  parseCsvDate,
+  parseCsvNumber,
+} from '../lib/csv';
+import { createTransactionSchema } from './transaction.controller';
+import {
+  ImportEntry,
+  assertImportCategories,
+  findImportedFitIds,
+  importTransactions,
+} from '../services/import.service';
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const ofxEntrySchema = z.object({
+  fitId: z.string().min(1, 'FITID é obrigatório'),
+  date: z.string().transform((str) => new Date(str)),
+  amount: positiveMoney('Valor deve ser positivo'),
+  type: z.enum(['INCOME', 'EXPENSE'], {
+    errorMap: () => ({ message: 'Tipo deve ser INCOME ou EXPENSE' }),
+  }),
+  description: z.string().min(1, 'Descrição é obrigatória'),
+  notes: z.string().nullable().optional(),
+  categoryId: z.string().min(1).optional(), // Padrão: categoria padrão do tipo
+});
+
+const confirmOfxImportSchema = z.object({
+  walletId: z.string().min(1, 'Carteira é obrigatória'),
+  defaultIncomeCategoryId: z.string().min(1).optional(),
+  defaultExpenseCategoryId: z.string().min(1).optional(),
+  entries: z.array(ofxEntrySchema).min(1, 'Informe ao menos um lançamento'),
+});
+
+const csvMappingSchema = z.object({
+  delimiter: z.string().length(1, 'Separador deve ter um único caractere').default(';'),
+  hasHeader: z.boolean().default(true),
+  decimalSeparator: z.enum([',', '.'], {
+    errorMap: () => ({ message: 'Separador decimal deve ser "," ou "."' }),
+  }).default(','),
+  dateFormat: z.enum(CSV_DATE_FORMATS, {
+    errorMap: () => ({ message: `Formato de data deve ser ${CSV_DATE_FORMATS.join(', ')}` }),
+  }).default('dd/MM/yyyy'),
+  descriptionColumn: z.string().trim().min(1, 'Coluna da descrição é obrigatória'),
+  amountColumn: z.string().trim().min(1, 'Coluna do valor é obrigatória'),
+  dateColumn: z.string().trim().min(1, 'Coluna da data é obrigatória'),
+  categoryColumn: z.string().trim().min(1).nullable().optional(),
+  walletColumn: z.string().trim().min(1).nullable().optional(),
+  typeColumn: z.string().trim().min(1).nullable().optional(),
+  notesColumn: z.string().trim().min(1).nullable().optional(),
+});
+
+const createCsvMappingSchema = csvMappingSchema.extend({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(100, 'Nome deve ter no máximo 100 caracteres'),
+});
+
+const updateCsvMappingSchema = createCsvMappingSchema.partial();
+
+// Campos multipart chegam como texto; o mapeamento avulso vem como JSON
+const importCsvSchema = z.object({
+  mappingId: z.string().min(1).optional(),
+  mapping: z.string()
+    .transform((str, ctx) => {
+      try {
+        return JSON.parse(str);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Mapeamento deve ser um JSON válido' });
+        return z.NEVER;
+      }
+    })
+    .pipe(csvMappingSchema)
+    .optional(),
+  walletId: z.string().min(1).optional(), // Padrão quando não há coluna de carteira
+  defaultIncomeCategoryId: z.string().min(1).optional(),
+  defaultExpenseCategoryId: z.string().min(1).optional(),
+}).refine((data) => data.mappingId || data.mapping, {
+  message: 'Informe o mapeamento das colunas (mappingId ou mapping)',
+});
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Carteira ativa do usuário que receberá a importação
+ */
+async function findImportWallet(userId: string, walletId: unknown) {
+  if (typeof walletId !== 'string' || !walletId) {
+    throw new AppError('Carteira é obrigatória');
+  }
+
+  const wallet = await prisma.wallet.findFirst({
+    where: { id: walletId, userId },
+  });
+
+  if (!wallet) {
+    throw new AppError('Carteira não encontrada', 404);
+  }
+
+  if (!wallet.isActive) {
+    throw new AppError('Não é possível importar lançamentos em uma carteira inativa');
+  }
+
+  return wallet;
+}
+
+// Limite de linhas por arquivo CSV
+const MAX_CSV_IMPORT_ROWS = 5000;
+
+type CsvMappingOptions = z.infer<typeof csvMappingSchema>;
+
+interface CsvRowError {
+  row: number; // Linha do arquivo (o cabeçalho é a linha 1; linhas vazias não contam)
+  field: string;
+  message: string;
+}
+
+// Valores aceitos na coluna de tipo (sem acentos e em minúsculas)
+const CSV_TYPE_VALUES: Record<string, 'INCOME' | 'EXPENSE'> = {
+  income: 'INCOME',
+  receita: 'INCOME',
+  credito: 'INCOME',
+  entrada: 'INCOME',
+  c: 'INCOME',
+  expense: 'EXPENSE',
+  despesa: 'EXPENSE',
+  debito: 'EXPENSE',
+  saida: 'EXPENSE',
+  d: 'EXPENSE',
+};
+
+/**
+ * Normaliza textos para comparação (sem acentos, espaços nas pontas e maiúsculas)
+ */
+function normalizeText(value: string) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+/**
+ * Índice de uma coluna do mapeamento: nome no cabeçalho ou número da coluna (começando em 1)
+ */
+function resolveColumnIndex(column: string, header: string[] | null): number {
+  if (header) {
+    const index = header.findIndex((name) => normalizeText(name) === normalizeText(column));
+    if (index >= 0) {
+      return index;
+    }
+  }
+
+  if (/^\d+$/.test(column) && Number(column) >= 1) {
+    return Number(column) - 1;
+  }
+
+  throw new AppError(`Coluna "${column}" não encontrada no arquivo`);
+}
+
+/**
+ * Carteira pelo id ou pelo nome
+ */
+function findWalletByRef(wallets: Wallet[], ref: string) {
+  return wallets.find((wallet) => wallet.id === ref || normalizeText(wallet.name) === normalizeText(ref));
+}
+
+/**
+ * Categoria pelo id ou pelo nome (preferindo a do mesmo tipo do lançamento,
+ * já que receitas e despesas podem ter categorias com o mesmo nome)
+ */
+function findCategoryByRef(categories: Category[], ref: string, type: string) {
+  const matches = categories.filter(
+    (category) => category.id === ref || normalizeText(category.name) === normalizeText(ref)
+  );
+
+  return matches.find((category) => category.type === type) ?? matches[0];
+}
+
+/**
+ * Converte as linhas do CSV em lançamentos, validando cada uma com as mesmas regras
+ * da criação de lançamentos; retorna os lançamentos válidos e os erros por linha
+ */
+function buildCsvEntries(
+  content: string,
+  mapping: CsvMappingOptions,
+  context: {
+    wallets: Wallet[];
+    categories: Category[];
+    walletId?: string;
+    defaultIncomeCategoryId?: string;
+    defaultExpenseCategoryId?: string;
+  }
+) {
+  const rows = parseCsv(content, mapping.delimiter);
+  const header = mapping.hasHeader ? rows.shift() ?? [] : null;
+
+  if (rows.length === 0) {
+    throw new AppError('Arquivo CSV sem linhas para importar');
+  }
+
+  if (rows.length > MAX_CSV_IMPORT_ROWS) {
+    throw new AppError(`Arquivo CSV deve ter no máximo ${MAX_CSV_IMPORT_ROWS} linhas`);
+  }
+
+  const columns = {
+    description: resolveColumnIndex(mapping.descriptionColumn, header),
+    amount: resolveColumnIndex(mapping.amountColumn, header),
+    date: resolveColumnIndex(mapping.dateColumn, header),
+    category: mapping.categoryColumn ? resolveColumnIndex(mapping.categoryColumn, header) : null,
+    wallet: mapping.walletColumn ? resolveColumnIndex(mapping.walletColumn, header) : null,
+    type: mapping.typeColumn ? resolveColumnIndex(mapping.typeColumn, header) : null,
+    notes: mapping.notesColumn ? resolveColumnIndex(mapping.notesColumn, header) : null,
+  };
+
+  const entries: (ImportEntry & { walletId: string })[] = [];
+  const errors: CsvRowError[] = [];
+
+  rows.forEach((cells, index) => {
+    const row = index + (header ? 2 : 1);
+    const cell = (column: number | null) => (column === null ? '' : (cells[column] ?? '').trim());
+    const rowErrors: CsvRowError[] = [];
+    const addError = (field: string, message: string) => rowErrors.push({ row, field, message });
+
+    const date = parseCsvDate(cell(columns.date), mapping.dateFormat);
+    if (!date) {
+      addError('date', `Data inválida: "${cell(columns.date)}" (formato ${mapping.dateFormat})`);
+    }
+
+    const amount = parseCsvNumber(cell(columns.amount), mapping.decimalSeparator as DecimalSeparator);
+    if (!amount) {
+      addError('amount', `Valor inválido: "${cell(columns.amount)}"`);
+    }
+
+    let type: 'INCOME' | 'EXPENSE' = amount?.isNegative() ? 'EXPENSE' : 'INCOME';
+    if (columns.type !== null) {
+      const typeValue = CSV_TYPE_VALUES[normalizeText(cell(columns.type))];
+      if (!typeValue) {
+        addError('type', `Tipo inválido: "${cell(columns.type)}" (use receita ou despesa)`);
+      }
+      type = typeValue ?? type;
+    }
+
+    let walletId = context.walletId ?? '';
+    if (cell(columns.wallet)) {
+      const wallet = findWalletByRef(context.wallets, cell(columns.wallet));
+      if (!wallet) {
+        addError('walletId', `Carteira não encontrada: "${cell(columns.wallet)}"`);
+      }
+      walletId = wallet?.id ?? walletId;
+    }
+
+    let categoryId = (type === 'INCOME' ? context.defaultIncomeCategoryId : context.defaultExpenseCategoryId) ?? '';
+    if (cell(columns.category)) {
+      const category = findCategoryByRef(context.categories, cell(columns.category), type);
+      if (!category) {
+        addError('categoryId', `Categoria não encontrada: "${cell(columns.category)}"`);
+      }
+      categoryId = category?.id ?? categoryId;
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    // Mesmas regras da criação de um lançamento
+    const result = createTransactionSchema.safeParse({
+      description: cell(columns.description),
+      amount: amount!.abs().toNumber(),
+      type,
+      dueDate: date!.toISOString(),
+      isPaid: true,
+      notes: cell(columns.notes) || undefined,
+      walletId,
+      categoryId,
+    });
+
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        addError(String(issue.path[0] ?? 'row'), issue.message);
+      }
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const data = result.data;
+    const wallet = context.wallets.find((item) => item.id === data.walletId);
+    const category = context.categories.find((item) => item.id === data.categoryId);
+
+    if (!wallet) {
+      addError('walletId', 'Carteira não encontrada');
+    } else if (!wallet.isActive) {
+      addError('walletId', 'Não é possível criar lançamentos em uma carteira inativa');
+    }
+
+    if (!category) {
+      addError('categoryId', 'Categoria não encontrada');
+    } else if (category.type !== data.type) {
+      addError('categoryId', 'Tipo da transação não corresponde ao tipo da categoria');
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    entries.push({
+      date: data.dueDate,
+      amount: data.amount,
+      type: data.type,
+      description: data.description,
+      notes: data.notes,
+      categoryId: data.categoryId,
+      walletId: data.walletId,
+    });
+  });
+
+  return { entries, errors };
+}
+
+/**
+ * Opções do mapeamento salvo no formato usado na leitura do CSV
+ */
+function toMappingOptions(mapping: CsvMapping): CsvMappingOptions {
+  return csvMappingSchema.parse(mapping);
+}
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Prévia da importação de um arquivo OFX (multipart, campos "file" e "walletId")
+ * Nada é gravado: retorna os lançamentos do arquivo já no formato da confirmação,
+ * marcando os que já foram importados nessa carteira (mesmo FITID)
+ */
+export const previewOfxImport = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const wallet = await findImportWallet(userId, req.body?.walletId);
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo é obrigatório' });
+    }
+
+    const statement = parseOfx(decodeOfx(req.file.buffer));
+
+    if (statement.currency && statement.currency !== wallet.currency) {
+      return res.status(400).json({
+        error: `Extrato em ${statement.currency} não corresponde à moeda da carteira (${wallet.currency})`,
+      });
+    }
+
+    const imported = await findImportedFitIds(
+      wallet.id,
+      statement.entries.map((entry) => entry.fitId)
+    );
+
+    const entries = statement.entries.map((entry) => ({
+      fitId: entry.fitId,
+      date: entry.date,
+      amount: entry.amount,
+      type: entry.type,
+      trnType: entry.trnType,
+      description: entry.description,
+      notes: entry.memo,
+      isDuplicate: imported.has(entry.fitId),
+      existingTransactionId: imported.get(entry.fitId) ?? null,
+    }));
+
+    return res.json({
+      walletId: wallet.id,
+      accountId: statement.accountId,
+      currency: statement.currency,
+      summary: {
+        total: entries.length,
+        new: entries.filter((entry) => !entry.isDuplicate).length,
+        duplicates: entries.filter((entry) => entry.isDuplicate).length,
+      },
+      entries,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao ler arquivo OFX:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Confirma a importação: cria os lançamentos já pagos na carteira
+ * Créditos viram receitas e débitos viram despesas; cada lançamento usa sua categoria
+ * ou a categoria padrão do seu tipo
+ * Lançamentos já importados (mesmo FITID na carteira) são ignorados; o restante é
+ * importado por inteiro ou nada é gravado
+ */
+export const confirmOfxImport = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = confirmOfxImportSchema.parse(req.body);
+    const wallet = await findImportWallet(userId, data.walletId);
+
+    const imported = await findImportedFitIds(
+      wallet.id,
+      data.entries.map((entry) => entry.fitId)
+    );
+
+    const skipped: string[] = [];
+    const seen = new Set<string>();
+    const entries: ImportEntry[] = [];
+
+    for (const entry of data.entries) {
+      if (imported.has(entry.fitId) || seen.has(entry.fitId)) {
+        skipped.push(entry.fitId);
+        continue;
+      }
+      seen.add(entry.fitId);
+
+      const categoryId = entry.categoryId
+        ?? (entry.type === 'INCOME' ? data.defaultIncomeCategoryId : data.defaultExpenseCategoryId);
+
+      if (!categoryId) {
+        return res.status(400).json({
+          error: `Informe a categoria do lançamento "${entry.description}" ou uma categoria padrão para ${entry.type === 'INCOME' ? 'receitas' : 'despesas'}`,
+        });
+      }
+
+      entries.push({ ...entry, categoryId });
+    }
+
+    if (entries.length > 0) {
+      await assertImportCategories(userId, entries);
+    }
+
+    const created = await prisma.$transaction(
+      (tx) => importTransactions(tx, wallet, entries),
+      { timeout: 60000 }
+    );
+
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: created.map((transaction) => transaction.id) } },
+      include: {
+        wallet: true,
+        category: true,
+        invoice: true,
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return res.status(201).json({
+      imported: transactions.length,
+      skipped,
+      transactions,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao importar arquivo OFX:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Lista os mapeamentos de CSV salvos pelo usuário
+ */
+export const listCsvMappings = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const mappings = await prisma.csvMapping.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+
+    return res.json(mappings);
+  } catch (error) {
+    console.error('Erro ao listar mapeamentos de CSV:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Salva um mapeamento de colunas de CSV para reutilizar nas próximas importações
+ */
+export const createCsvMapping = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = createCsvMappingSchema.parse(req.body);
+
+    // O nome do mapeamento é único por usuário
+    const existingMapping = await prisma.csvMapping.findFirst({
+      where: { userId, name: data.name },
+    });
+
+    if (existingMapping) {
+      return res.status(400).json({ error: 'Já existe um mapeamento com este nome' });
+    }
+
+    const mapping = await prisma.csvMapping.create({
+      data: {
+        ...data,
+        userId,
+      },
+    });
+
+    return res.status(201).json(mapping);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao criar mapeamento de CSV:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Atualiza um mapeamento de CSV
+ */
+export const updateCsvMapping = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const data = updateCsvMappingSchema.parse(req.body);
+
+    const mapping = await prisma.csvMapping.findFirst({
+      where: { id, userId },
+    });
+
+    if (!mapping) {
+      return res.status(404).json({ error: 'Mapeamento não encontrado' });
+    }
+
+    if (data.name && data.name !== mapping.name) {
+      const existingMapping = await prisma.csvMapping.findFirst({
+        where: { userId, name: data.name },
+      });
+
+      if (existingMapping) {
+        return res.status(400).json({ error: 'Já existe um mapeamento com este nome' });
+      }
+    }
+
+    const updatedMapping = await prisma.csvMapping.update({
+      where: { id },
+      data,
+    });
+
+    return res.json(updatedMapping);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao atualizar mapeamento de CSV:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Deleta um mapeamento de CSV
+ */
+export const deleteCsvMapping = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const mapping = await prisma.csvMapping.findFirst({
+      where: { id, userId },
+    });
+
+    if (!mapping) {
+      return res.status(404).json({ error: 'Mapeamento não encontrado' });
+    }
+
+    await prisma.csvMapping.delete({
+      where: { id },
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao deletar mapeamento de CSV:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Importa um arquivo CSV (multipart: "file" e o mapeamento salvo em "mappingId"
+ * ou avulso, em JSON, em "mapping")
+ * Cada linha é validada com as regras da criação de lançamentos; havendo qualquer
+ * linha inválida, nada é gravado e a resposta traz os erros por linha
+ * Os lançamentos são criados já pagos na data informada no arquivo
+ */
+export const importCsv = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = importCsvSchema.parse(req.body ?? {});
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'Arquivo é obrigatório' });
+    }
+
+    let mapping = data.mapping;
+    if (data.mappingId) {
+      const savedMapping = await prisma.csvMapping.findFirst({
+        where: { id: data.mappingId, userId },
+      });
+
+      if (!savedMapping) {
+        return res.status(404).json({ error: 'Mapeamento não encontrado' });
+      }
+
+      mapping = toMappingOptions(savedMapping);
+    }
+
+    const [wallets, categories] = await Promise.all([
+      prisma.wallet.findMany({ where: { userId } }),
+      prisma.category.findMany({ where: { userId } }),
+    ]);
+
+    const { entries, errors } = buildCsvEntries(decodeCsv(req.file.buffer), mapping!, {
+      wallets,
+      categories,
+      walletId: data.walletId,
+      defaultIncomeCategoryId: data.defaultIncomeCategoryId,
+      defaultExpenseCategoryId: data.defaultExpenseCategoryId,
+    });
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'O arquivo tem linhas inválidas; nenhum lançamento foi importado',
+        errors,
+      });
+    }
+
+    // Todas as linhas são gravadas juntas: qualquer recusa desfaz a importação inteira
+    const created = await prisma.$transaction(
+      async (tx) => {
+        const createdTransactions = [];
+
+        for (const wallet of wallets) {
+          const walletEntries = entries.filter((entry) => entry.walletId === wallet.id);
+
+          if (walletEntries.length > 0) {
+            createdTransactions.push(...(await importTransactions(tx, wallet, walletEntries)));
+          }
+        }
+
+        return createdTransactions;
+      },
+      { timeout: 60000 }
+    );
+
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: created.map((transaction) => transaction.id) } },
+      include: {
+        wallet: true,
+        category: true,
+        invoice: true,
+      },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return res.status(201).json({
+      imported: transactions.length,
+      transactions,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao importar arquivo CSV:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -0,0 +1,165 @@
+/**
+ * Controller de Faturas
+ * Consulta e pagamento das faturas dos cartões de crédito
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { ZERO } from '../lib/money';
+import { getInvoiceTotal, payInvoice as payInvoiceService } from '../services/invoice.service';
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const payInvoiceSchema = z.object({
+  walletId: z.string().min(1, 'Carteira de origem é obrigatória'),
+  date: z.string().transform((str) => new Date(str)).optional(),
+});
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Lista as faturas do usuário com o total de cada uma
+ * Pode filtrar por cartão (?walletId=) e status (?status=OPEN ou ?status=PAID)
+ */
+export const listInvoices = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { walletId, status } = req.query;
+
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        userId,
+        ...(walletId && { walletId: walletId as string }),
+        ...(status && { status: status as string }),
+      },
+      include: {
+        wallet: {
+          select: {
+            id: true,
+            name: true,
+            color: true,
+            icon: true,
+          },
+        },
+        _count: { select: { transactions: true } },
+      },
+      orderBy: { dueDate: 'desc' },
+    });
+
+    // Total de cada fatura: despesas menos estornos
+    const totals = await prisma.transaction.groupBy({
+      by: ['invoiceId', 'type'],
+      where: { invoiceId: { in: invoices.map((invoice) => invoice.id) } },
+      _sum: { amount: true },
+    });
+
+    const totalByInvoice = new Map<string, Prisma.Decimal>();
+    for (const group of totals) {
+      const amount = group._sum.amount ?? ZERO;
+      const current = totalByInvoice.get(group.invoiceId!) ?? ZERO;
+      totalByInvoice.set(
+        group.invoiceId!,
+        group.type === 'EXPENSE' ? current.plus(amount) : current.minus(amount)
+      );
+    }
+
+    return res.json(
+      invoices.map((invoice) => ({
+        ...invoice,
+        total: totalByInvoice.get(invoice.id) ?? ZERO,
+      }))
+    );
+  } catch (error) {
+    console.error('Erro ao listar faturas:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Busca uma fatura com os seus lançamentos
+ */
+export const getInvoice = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, userId },
+      include: {
+        wallet: true,
+        transfer: true,
+        transactions: {
+          include: {
+            category: {
+              select: {
+                id: true,
+                name: true,
+                color: true,
+                icon: true,
+                type: true,
+              },
+            },
+          },
+          orderBy: { dueDate: 'asc' },
+        },
+      },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: 'Fatura não encontrada' });
+    }
+
+    const total = await getInvoiceTotal(prisma, invoice.id);
+
+    return res.json({ ...invoice, total });
+  } catch (error) {
+    console.error('Erro ao buscar fatura:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Paga a fatura com uma transferência da carteira informada para o cartão
+ * Todos os lançamentos da fatura ficam quitados
+ */
+export const payInvoice = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const data = payInvoiceSchema.parse(req.body);
+
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, userId },
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: 'Fatura não encontrada' });
+    }
+
+    const paidInvoice = await prisma.$transaction(async (tx) => {
+      await payInvoiceService(tx, invoice, data);
+
+      return tx.invoice.findUniqueOrThrow({
+        where: { id },
+        include: {
+          wallet: true,
+          transfer: true,
+        },
+      });
+    });
+
+    return res.json(paidInvoice);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao pagar fatura:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
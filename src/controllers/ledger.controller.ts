@@ -0,0 +1,113 @@
+/**
+ * Controller do Livro-Razão
+ * Consulta os lançamentos contábeis e o balancete, e reconstrói o livro-razão
+ * a partir do histórico de pagamentos, transferências e ajustes de saldo
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { JOURNAL_SOURCES, getTrialBalance, rebuildJournal } from '../services/ledger.service';
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const listEntriesSchema = z.object({
+  walletId: z.string().optional(),
+  source: z.enum(JOURNAL_SOURCES, {
+    errorMap: () => ({ message: `Origem deve ser ${JOURNAL_SOURCES.join(', ')}` }),
+  }).optional(),
+  startDate: z.string().transform((str) => new Date(str)).optional(),
+  endDate: z.string().transform((str) => new Date(str)).optional(),
+});
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Lista os lançamentos contábeis do usuário com as partidas, do mais recente ao mais antigo
+ * Filtros: ?walletId=uuid, ?source=PAYMENT, ?startDate=YYYY-MM-DD, ?endDate=YYYY-MM-DD
+ */
+export const listEntries = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { walletId, source, startDate, endDate } = listEntriesSchema.parse(req.query);
+
+    const entries = await prisma.journalEntry.findMany({
+      where: {
+        userId,
+        ...(walletId && { postings: { some: { walletId } } }),
+        ...(source && { source }),
+        ...((startDate || endDate) && {
+          date: {
+            ...(startDate && { gte: startDate }),
+            ...(endDate && { lte: endDate }),
+          },
+        }),
+      },
+      include: {
+        postings: {
+          include: {
+            wallet: {
+              select: {
+                id: true,
+                name: true,
+                color: true,
+                icon: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return res.json(entries);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao listar lançamentos contábeis:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Balancete do usuário: saldo de cada conta por moeda, se as partidas fecham em zero
+ * e se o saldo salvo de cada carteira bate com o livro-razão
+ */
+export const getTrialBalanceReport = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const trialBalance = await getTrialBalance(prisma, userId);
+
+    return res.json(trialBalance);
+  } catch (error) {
+    console.error('Erro ao gerar balancete:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Reconstrói o livro-razão do usuário a partir do histórico, sem alterar os saldos salvos
+ * Depois, a conferência de saldos das carteiras mostra (e corrige) as divergências
+ */
+export const rebuildLedger = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const entries = await rebuildJournal(tx, userId);
+      const trialBalance = await getTrialBalance(tx, userId);
+      return { entries, ...trialBalance };
+    }, { timeout: 60000 });
+
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao reconstruir livro-razão:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -0,0 +1,300 @@
+/**
+ * Controller de Conciliações
+ * Confere as carteiras com o extrato bancário: o usuário informa a data e o saldo final
+ * do extrato e marca os lançamentos e transferências compensados
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { toMoney } from '../lib/money';
+import {
+  getReconciliationSummary,
+  setReconciliationItems,
+} from '../services/reconciliation.service';
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const createReconciliationSchema = z.object({
+  walletId: z.string().min(1, 'Carteira é obrigatória'),
+  statementDate: z.string().transform((str) => new Date(str)),
+  statementBalance: z.number({ required_error: 'Saldo do extrato é obrigatório' }).transform(toMoney),
+});
+
+const updateReconciliationSchema = z.object({
+  statementDate: z.string().transform((str) => new Date(str)).optional(),
+  statementBalance: z.number().transform(toMoney).optional(),
+});
+
+const reconciliationItemsSchema = z.object({
+  transactionIds: z.array(z.string().min(1)).default([]),
+  transferIds: z.array(z.string().min(1)).default([]),
+});
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Conciliação do usuário que ainda pode ser alterada
+ */
+async function findOpenReconciliation(userId: string, id: string) {
+  const reconciliation = await prisma.reconciliation.findFirst({
+    where: { id, userId },
+  });
+
+  if (!reconciliation) {
+    throw new AppError('Conciliação não encontrada', 404);
+  }
+
+  if (reconciliation.status === 'COMPLETED') {
+    throw new AppError('Conciliação já foi concluída');
+  }
+
+  return reconciliation;
+}
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Lista as conciliações do usuário (filtro: ?walletId=uuid)
+ */
+export const listReconciliations = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { walletId } = req.query;
+
+    const reconciliations = await prisma.reconciliation.findMany({
+      where: {
+        userId,
+        ...(walletId && { walletId: walletId as string }),
+      },
+      include: {
+        wallet: {
+          select: {
+            id: true,
+            name: true,
+            color: true,
+            icon: true,
+          },
+        },
+      },
+      orderBy: { statementDate: 'desc' },
+    });
+
+    return res.json(reconciliations);
+  } catch (error) {
+    console.error('Erro ao listar conciliações:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Busca uma conciliação com o resumo: saldo de partida, total compensado,
+ * diferença para o saldo do extrato e os itens (compensados ou não) até a data do extrato
+ */
+export const getReconciliation = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const reconciliation = await prisma.reconciliation.findFirst({
+      where: { id, userId },
+    });
+
+    if (!reconciliation) {
+      return res.status(404).json({ error: 'Conciliação não encontrada' });
+    }
+
+    const summary = await getReconciliationSummary(prisma, reconciliation);
+
+    return res.json(summary);
+  } catch (error) {
+    console.error('Erro ao buscar conciliação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Inicia a conciliação de uma carteira com a data e o saldo final do extrato
+ * Cada carteira tem no máximo uma conciliação em andamento, e o extrato deve ser
+ * posterior ao da última conciliação concluída
+ */
+export const createReconciliation = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = createReconciliationSchema.parse(req.body);
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id: data.walletId, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    const [inProgress, lastCompleted] = await Promise.all([
+      prisma.reconciliation.findFirst({
+        where: { walletId: wallet.id, status: 'IN_PROGRESS' },
+      }),
+      prisma.reconciliation.findFirst({
+        where: { walletId: wallet.id, status: 'COMPLETED' },
+        orderBy: { statementDate: 'desc' },
+      }),
+    ]);
+
+    if (inProgress) {
+      return res.status(400).json({ error: 'Já existe uma conciliação em andamento para esta carteira' });
+    }
+
+    if (lastCompleted && data.statementDate <= lastCompleted.statementDate) {
+      return res.status(400).json({
+        error: 'Data do extrato deve ser posterior à da última conciliação concluída',
+      });
+    }
+
+    const reconciliation = await prisma.reconciliation.create({
+      data: {
+        statementDate: data.statementDate,
+        statementBalance: data.statementBalance,
+        userId,
+        walletId: wallet.id,
+      },
+    });
+
+    const summary = await getReconciliationSummary(prisma, reconciliation);
+
+    return res.status(201).json(summary);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao criar conciliação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Corrige a data ou o saldo do extrato de uma conciliação em andamento
+ */
+export const updateReconciliation = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const data = updateReconciliationSchema.parse(req.body);
+
+    await findOpenReconciliation(userId, id);
+
+    const reconciliation = await prisma.reconciliation.update({
+      where: { id },
+      data,
+    });
+
+    const summary = await getReconciliationSummary(prisma, reconciliation);
+
+    return res.json(summary);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao atualizar conciliação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Define os itens compensados da conciliação (substitui a marcação atual)
+ */
+export const setItems = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const data = reconciliationItemsSchema.parse(req.body);
+
+    const reconciliation = await findOpenReconciliation(userId, id);
+
+    const summary = await prisma.$transaction(async (tx) => {
+      await setReconciliationItems(tx, reconciliation, data.transactionIds, data.transferIds);
+      return getReconciliationSummary(tx, reconciliation);
+    });
+
+    return res.json(summary);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao marcar itens da conciliação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Conclui a conciliação quando o saldo compensado bate com o saldo do extrato
+ * A partir daí os itens compensados ficam bloqueados para alteração e exclusão
+ */
+export const completeReconciliation = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const reconciliation = await findOpenReconciliation(userId, id);
+
+    const completed = await prisma.$transaction(async (tx) => {
+      const summary = await getReconciliationSummary(tx, reconciliation);
+
+      if (!summary.difference.isZero()) {
+        throw new AppError(
+          `O saldo compensado não bate com o extrato (diferença de ${summary.difference.toFixed(2)})`
+        );
+      }
+
+      const updated = await tx.reconciliation.update({
+        where: { id },
+        data: { status: 'COMPLETED', completedAt: new Date() },
+      });
+
+      return { ...summary, ...updated };
+    });
+
+    return res.json(completed);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao concluir conciliação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Deleta uma conciliação (em andamento ou concluída)
+ * Os itens compensados voltam a ficar em aberto e desbloqueados
+ */
+export const deleteReconciliation = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const reconciliation = await prisma.reconciliation.findFirst({
+      where: { id, userId },
+    });
+
+    if (!reconciliation) {
+      return res.status(404).json({ error: 'Conciliação não encontrada' });
+    }
+
+    await prisma.reconciliation.delete({
+      where: { id },
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao deletar conciliação:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
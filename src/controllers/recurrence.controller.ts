@@ -0,0 +1,204 @@
+/**
+ * Controller de Recorrências
+ * Gerencia as regras das séries de lançamentos e de transferências recorrentes
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { assertInvoiceNotPaid } from '../services/invoice.service';
+import { assertNotReconciled } from '../services/reconciliation.service';
+import { removeTransferFee } from '../services/transfer.service';
+import { removeAllPayments } from '../services/payment.service';
+import { deleteStoredFiles, getAttachmentKeys } from '../services/attachment.service';
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const endRecurrenceSchema = z.object({
+  date: z.string()
+    .transform((str) => new Date(str))
+    .refine((date) => !isNaN(date.getTime()), 'Data de encerramento inválida'),
+});
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Lista as regras de recorrência do usuário
+ * Por padrão, lista apenas séries ativas
+ */
+export const listRecurrences = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { includeInactive = 'false' } = req.query;
+
+    const rules = await prisma.recurrenceRule.findMany({
+      where: {
+        userId,
+        ...(includeInactive !== 'true' && { isActive: true }),
+      },
+      orderBy: { startDate: 'desc' },
+    });
+
+    return res.json(rules);
+  } catch (error) {
+    console.error('Erro ao listar recorrências:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Busca uma regra de recorrência com os lançamentos (ou as transferências) da série
+ */
+export const getRecurrence = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const rule = await prisma.recurrenceRule.findFirst({
+      where: { id, userId },
+    });
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Recorrência não encontrada' });
+    }
+
+    if (rule.kind === 'TRANSFER') {
+      const transfers = await prisma.transfer.findMany({
+        where: { recurringGroupId: id, userId },
+        include: { feeTransaction: true },
+        orderBy: { date: 'asc' },
+      });
+
+      return res.json({ ...rule, transfers });
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: { recurringGroupId: id, userId },
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return res.json({ ...rule, transactions });
+  } catch (error) {
+    console.error('Erro ao buscar recorrência:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Encerra uma série a partir de uma data
+ * Remove as ocorrências em aberto (sem nenhum pagamento) a partir da data e impede que novas sejam geradas
+ * depois dela (as que faltam até a data continuam sendo geradas pelo horizonte móvel)
+ * Ocorrências pagas ou parcialmente pagas são mantidas como histórico, exceto as compras no cartão,
+ * que são pagas pelo próprio cartão na geração: essas são removidas desfazendo o pagamento
+ * Em séries de transferências, remove as pendentes (e suas tarifas) a partir da data
+ */
+export const endRecurrence = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { date } = endRecurrenceSchema.parse(req.body);
+
+    const rule = await prisma.recurrenceRule.findFirst({
+      where: { id, userId },
+    });
+
+    if (!rule) {
+      return res.status(404).json({ error: 'Recorrência não encontrada' });
+    }
+
+    if (date <= rule.startDate) {
+      return res.status(400).json({
+        error: 'Data de encerramento deve ser posterior ao início da recorrência',
+      });
+    }
+
+    const { attachmentKeys, ...result } = await prisma.$transaction(async (tx) => {
+      let deletedCount;
+      let attachmentKeys: string[];
+
+      if (rule.kind === 'TRANSFER') {
+        const pending = await tx.transfer.findMany({
+          where: {
+            recurringGroupId: id,
+            userId,
+            status: 'PENDING',
+            date: { gte: date },
+          },
+          include: { feeTransaction: true },
+        });
+
+        const fees = pending
+          .map((transfer) => transfer.feeTransaction)
+          .filter((fee): fee is NonNullable<typeof fee> => fee !== null);
+        attachmentKeys = await getAttachmentKeys(tx, fees.map((fee) => fee.id));
+
+        // Tarifas das transferências pendentes ainda estão em aberto
+        for (const fee of fees) {
+          await removeTransferFee(tx, fee);
+        }
+
+        const deleted = await tx.transfer.deleteMany({
+          where: { id: { in: pending.map((transfer) => transfer.id) } },
+        });
+        deletedCount = deleted.count;
+      } else {
+        const open = await tx.transaction.findMany({
+          where: {
+            recurringGroupId: id,
+            userId,
+            dueDate: { gte: date },
+            OR: [{ status: 'OPEN', paidAmount: 0 }, { invoiceId: { not: null } }],
+          },
+        });
+
+        // Lançamentos de faturas já pagas ou conciliados com o extrato não podem ser excluídos
+        for (const transaction of open) {
+          await assertInvoiceNotPaid(tx, transaction);
+          await assertNotReconciled(tx, transaction);
+        }
+
+        // Desfaz o pagamento feito pelo cartão
+        for (const transaction of open) {
+          if (transaction.paidAmount.greaterThan(0)) {
+            await removeAllPayments(tx, transaction);
+          }
+        }
+
+        const openIds = open.map((transaction) => transaction.id);
+        attachmentKeys = await getAttachmentKeys(tx, openIds);
+
+        const deleted = await tx.transaction.deleteMany({
+          where: { id: { in: openIds } },
+        });
+        deletedCount = deleted.count;
+      }
+
+      // A última ocorrência possível passa a ser anterior à data informada
+      // Se ainda faltam ocorrências até a data, a regra segue ativa e o job a encerra ao gerá-las
+      const hasPendingOccurrences = !rule.lastGeneratedDate || date > rule.lastGeneratedDate;
+      const updatedRule = await tx.recurrenceRule.update({
+        where: { id },
+        data: {
+          endDate: new Date(date.getTime() - 1),
+          ...(!hasPendingOccurrences && { isActive: false }),
+        },
+      });
+
+      return { ...updatedRule, deletedCount, attachmentKeys };
+    });
+
+    await deleteStoredFiles(attachmentKeys);
+
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao encerrar recorrência:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -4,20 +4,37 @@
  */
 
 import { Request, Response } from 'express';
+import { Prisma, Tag } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { ZERO, sumMoney } from '../lib/money';
+import { getCategoryLines } from '../lib/splits';
+import { getDescendantIds, sumByCategoryTree } from '../lib/categories';
+import { TagFilterMode, buildTagFilter, parseTagIds } from '../lib/tags';
+import { getCurrencyConverter } from '../services/exchange-rate.service';
 
 interface ReportFilters {
   startDate: Date;
   endDate: Date;
   walletIds?: string[];
   categoryIds?: string[];
+  tagIds?: string[];
+  tagMode?: TagFilterMode;
   type?: 'INCOME' | 'EXPENSE';
   isPaid?: boolean;
 }
 
+interface TagTotals {
+  tag: Tag;
+  income: Prisma.Decimal;
+  expense: Prisma.Decimal;
+  count: number;
+}
+
 /**
  * Retorna relatório financeiro completo com filtros personalizados
- * Inclui: métricas resumidas, transações por categoria, evolução mensal, etc.
+ * Inclui: métricas resumidas, transações por categoria e por tag, evolução mensal, etc.
+ * Os valores são convertidos para a moeda base do usuário pela cotação da data de cada lançamento
  */
 export const getReport = async (req: Request, res: Response) => {
   try {
@@ -27,6 +44,8 @@ export const getReport = async (req: Request, res: Response) => {
       endDate: endDateParam,
       walletIds: walletIdsParam,
       categoryIds: categoryIdsParam,
+      tagIds: tagIdsParam,
+      tagMode: tagModeParam,
       type,
       isPaid: isPaidParam,
     } = req.query;
@@ -56,11 +75,29 @@ export const getReport = async (req: Request, res: Response) => {
       whereClause.walletId = { in: walletIds };
     }
 
-    if (categoryIdsParam) {
-      const categoryIds = (categoryIdsParam as string).split(',');
-      whereClause.categoryId = { in: categoryIds };
+    // Categorias do usuário (hierarquia usada no filtro e nos totais acumulados)
+    const categories = await prisma.category.findMany({
+      where: { userId },
+    });
+
+    // O filtro por uma categoria inclui as suas subcategorias
+    const categoryFilter = categoryIdsParam
+      ? getDescendantIds((categoryIdsParam as string).split(','), categories)
+      : null;
+
+    if (categoryFilter) {
+      // A categoria pode ser a principal ou a de uma das divisões
+      whereClause.OR = [
+        { categoryId: { in: categoryFilter } },
+        { splits: { some: { categoryId: { in: categoryFilter } } } },
+      ];
     }
 
+    // Tags: qualquer uma (any, padrão) ou todas (all)
+    const tagIds = parseTagIds(tagIdsParam);
+    const tagMode: TagFilterMode = tagModeParam === 'all' ? 'all' : 'any';
+    Object.assign(whereClause, buildTagFilter(tagIds, tagMode));
+
     if (type) {
       whereClause.type = type;
     }
@@ -72,19 +109,7 @@ export const getReport = async (req: Request, res: Response) => {
     // Busca dados em paralelo
     const [
       // Transações do período com filtros
-      transactions,
-      
-      // Total de receitas
-      totalIncome,
-      
-      // Total de despesas
-      totalExpense,
-      
-      // Receitas pagas
-      paidIncome,
-      
-      // Despesas pagas
-      paidExpense,
+      periodTransactions,
       
       // Média diária de gastos
       allExpenses,
@@ -98,38 +123,12 @@ export const getReport = async (req: Request, res: Response) => {
         include: {
           category: true,
           wallet: true,
+          splits: { include: { category: true } },
+          tags: true,
         },
         orderBy: { dueDate: 'desc' },
       }),
 
-      // Total de receitas
-      prisma.transaction.aggregate({
-        where: { ...whereClause, type: 'INCOME' },
-        _sum: { amount: true },
-        _count: true,
-      }),
-
-      // Total de despesas
-      prisma.transaction.aggregate({
-        where: { ...whereClause, type: 'EXPENSE' },
-        _sum: { amount: true },
-        _count: true,
-      }),
-
-      // Receitas pagas
-      prisma.transaction.aggregate({
-        where: { ...whereClause, type: 'INCOME', isPaid: true },
-        _sum: { amount: true },
-        _count: true,
-      }),
-
-      // Despesas pagas
-      prisma.transaction.aggregate({
-        where: { ...whereClause, type: 'EXPENSE', isPaid: true },
-        _sum: { amount: true },
-        _count: true,
-      }),
-
       // Todas as despesas para calcular média
       prisma.transaction.findMany({
         where: { ...whereClause, type: 'EXPENSE' },
@@ -146,61 +145,91 @@ export const getReport = async (req: Request, res: Response) => {
           },
         },
         select: {
-          amount: true,
+          paidAmount: true,
           type: true,
           dueDate: true,
-          isPaid: true,
+          wallet: { select: { currency: true } },
         },
       }),
     ]);
 
-    // Calcula gastos por categoria
-    const expensesByCategory = transactions
-      .filter((t) => t.type === 'EXPENSE')
-      .reduce((acc, transaction) => {
-        const categoryId = transaction.category.id;
-        if (!acc[categoryId]) {
-          acc[categoryId] = {
-            category: transaction.category,
-            total: 0,
-            count: 0,
-            paid: 0,
-            pending: 0,
-          };
-        }
-        acc[categoryId].total += transaction.amount;
-        acc[categoryId].count += 1;
-        if (transaction.isPaid) {
-          acc[categoryId].paid += transaction.amount;
-        } else {
-          acc[categoryId].pending += transaction.amount;
-        }
-        return acc;
-      }, {} as Record<string, any>);
-
-    // Calcula receitas por categoria
-    const incomeByCategory = transactions
-      .filter((t) => t.type === 'INCOME')
-      .reduce((acc, transaction) => {
-        const categoryId = transaction.category.id;
-        if (!acc[categoryId]) {
-          acc[categoryId] = {
-            category: transaction.category,
-            total: 0,
-            count: 0,
-            paid: 0,
-            pending: 0,
-          };
-        }
-        acc[categoryId].total += transaction.amount;
-        acc[categoryId].count += 1;
-        if (transaction.isPaid) {
-          acc[categoryId].paid += transaction.amount;
-        } else {
-          acc[categoryId].pending += transaction.amount;
-        }
-        return acc;
-      }, {} as Record<string, any>);
+    const converter = await getCurrencyConverter(prisma, userId);
+
+    // Valores na moeda base (o valor original e a moeda da carteira ficam em originalAmount e currency)
+    const transactions = periodTransactions.map((transaction) => {
+      const convert = (amount: typeof transaction.amount) =>
+        converter.convert(amount, transaction.wallet.currency, transaction.dueDate);
+
+      return {
+        ...transaction,
+        amount: convert(transaction.amount),
+        paidAmount: convert(transaction.paidAmount),
+        splits: transaction.splits.map((split) => ({ ...split, amount: convert(split.amount) })),
+        originalAmount: transaction.amount,
+        currency: transaction.wallet.currency,
+      };
+    });
+
+    const incomeTransactions = transactions.filter((t) => t.type === 'INCOME');
+    const expenseTransactions = transactions.filter((t) => t.type === 'EXPENSE');
+
+    // Quebra os lançamentos nas linhas por categoria (divisões contam em cada categoria)
+    // Com filtro de categorias, só as linhas das categorias filtradas entram no agrupamento
+    // Cada categoria traz os totais diretos e os acumulados com as subcategorias (rolledUp)
+    const groupByCategory = (transactionType: string) => {
+      const lines = transactions
+        .filter((t) => t.type === transactionType)
+        .flatMap((transaction) => getCategoryLines(transaction))
+        .filter((line) => !categoryFilter || categoryFilter.includes(line.category.id));
+
+      const totals = sumByCategoryTree(
+        lines.map((line) => ({
+          categoryId: line.category.id,
+          values: {
+            total: line.amount,
+            paid: line.paidAmount,
+            pending: line.amount.minus(line.paidAmount),
+          },
+        })),
+        ['total', 'paid', 'pending'],
+        categories
+      );
+
+      return categories
+        .filter((category) => totals.has(category.id))
+        .map((category) => {
+          const { direct, rolledUp } = totals.get(category.id)!;
+          return { category, ...direct, rolledUp };
+        });
+    };
+
+    // Calcula gastos e receitas por categoria
+    const expensesByCategory = groupByCategory('EXPENSE');
+    const incomeByCategory = groupByCategory('INCOME');
+
+    // Calcula totais por tag (um lançamento com várias tags conta em cada uma)
+    // Com filtro de tags, só as tags filtradas entram no agrupamento
+    const byTag = transactions.reduce((acc, transaction) => {
+      transaction.tags
+        .filter((tag) => tagIds.length === 0 || tagIds.includes(tag.id))
+        .forEach((tag) => {
+          if (!acc[tag.id]) {
+            acc[tag.id] = {
+              tag,
+              income: ZERO,
+              expense: ZERO,
+              count: 0,
+            };
+          }
+          if (transaction.type === 'INCOME') {
+            acc[tag.id].income = acc[tag.id].income.plus(transaction.amount);
+          } else {
+            acc[tag.id].expense = acc[tag.id].expense.plus(transaction.amount);
+          }
+          acc[tag.id].count += 1;
+        });
+      return acc;
+    }, {} as Record<string, TagTotals>);
 
     // Calcula distribuição por carteira
     const byWallet = transactions.reduce((acc, transaction) => {
@@ -208,37 +237,42 @@ export const getReport = async (req: Request, res: Response) => {
       if (!acc[walletId]) {
         acc[walletId] = {
           wallet: transaction.wallet,
-          income: 0,
-          expense: 0,
+          income: ZERO,
+          expense: ZERO,
           count: 0,
         };
       }
       if (transaction.type === 'INCOME') {
-        acc[walletId].income += transaction.amount;
+        acc[walletId].income = acc[walletId].income.plus(transaction.amount);
       } else {
-        acc[walletId].expense += transaction.amount;
+        acc[walletId].expense = acc[walletId].expense.plus(transaction.amount);
       }
       acc[walletId].count += 1;
       return acc;
     }, {} as Record<string, any>);
 
+    const incomeTotal = sumMoney(incomeTransactions.map((t) => t.amount));
+    const incomePaid = sumMoney(incomeTransactions.map((t) => t.paidAmount));
+    const expenseTotal = sumMoney(expenseTransactions.map((t) => t.amount));
+    const expensePaid = sumMoney(expenseTransactions.map((t) => t.paidAmount));
+
     // Calcula média diária de gastos
     const daysDiff = Math.ceil(
       (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)
     );
     const avgDailyExpense =
       daysDiff > 0
-        ? (totalExpense._sum.amount || 0) / daysDiff
-        : 0;
+        ? expenseTotal.dividedBy(daysDiff).toDecimalPlaces(2)
+        : ZERO;
 
     // Calcula maior gasto e maior receita
     const biggestExpense = transactions
       .filter((t) => t.type === 'EXPENSE')
-      .sort((a, b) => b.amount - a.amount)[0];
+      .sort((a, b) => b.amount.comparedTo(a.amount))[0];
 
     const biggestIncome = transactions
       .filter((t) => t.type === 'INCOME')
-      .sort((a, b) => b.amount - a.amount)[0];
+      .sort((a, b) => b.amount.comparedTo(a.amount))[0];
 
     // Evolução mensal (últimos 6 meses)
     const monthlyEvolution = Array.from({ length: 6 }, (_, i) => {
@@ -252,25 +286,30 @@ export const getReport = async (req: Request, res: Response) => {
         return tDate.getMonth() + 1 === month && tDate.getFullYear() === year;
       });
 
-      const income = monthData
-        .filter((t) => t.type === 'INCOME' && t.isPaid)
-        .reduce((sum, t) => sum + t.amount, 0);
+      const income = sumMoney(
+        monthData
+          .filter((t) => t.type === 'INCOME')
+          .map((t) => converter.convert(t.paidAmount, t.wallet.currency, t.dueDate))
+      );
 
-      const expense = monthData
-        .filter((t) => t.type === 'EXPENSE' && t.isPaid)
-        .reduce((sum, t) => sum + t.amount, 0);
+      const expense = sumMoney(
+        monthData
+          .filter((t) => t.type === 'EXPENSE')
+          .map((t) => converter.convert(t.paidAmount, t.wallet.currency, t.dueDate))
+      );
 
       return {
         month,
         year,
         income,
         expense,
-        balance: income - expense,
+        balance: income.minus(expense),
       };
     });
 
     // Monta o resultado
     const report = {
+      baseCurrency: converter.baseCurrency,
       period: {
         startDate,
         endDate,
@@ -279,34 +318,35 @@ export const getReport = async (req: Request, res: Response) => {
       filters: {
         walletIds: walletIdsParam ? (walletIdsParam as string).split(',') : null,
         categoryIds: categoryIdsParam ? (categoryIdsParam as string).split(',') : null,
+        tagIds: tagIds.length > 0 ? tagIds : null,
+        tagMode: tagIds.length > 0 ? tagMode : null,
         type: type || null,
         isPaid: isPaidParam !== undefined ? isPaidParam === 'true' : null,
       },
       summary: {
         income: {
-          total: totalIncome._sum.amount || 0,
-          paid: paidIncome._sum.amount || 0,
-          pending: (totalIncome._sum.amount || 0) - (paidIncome._sum.amount || 0),
-          count: totalIncome._count,
+          total: incomeTotal,
+          paid: incomePaid,
+          pending: incomeTotal.minus(incomePaid),
+          count: incomeTransactions.length,
         },
         expense: {
-          total: totalExpense._sum.amount || 0,
-          paid: paidExpense._sum.amount || 0,
-          pending: (totalExpense._sum.amount || 0) - (paidExpense._sum.amount || 0),
-          count: totalExpense._count,
+          total: expenseTotal,
+          paid: expensePaid,
+          pending: expenseTotal.minus(expensePaid),
+          count: expenseTransactions.length,
         },
-        balance: (totalIncome._sum.amount || 0) - (totalExpense._sum.amount || 0),
+        balance: incomeTotal.minus(expenseTotal),
         avgDailyExpense,
       },
       byCategory: {
-        expenses: Object.values(expensesByCategory).sort(
-          (a: any, b: any) => b.total - a.total
-        ),
-        income: Object.values(incomeByCategory).sort(
-          (a: any, b: any) => b.total - a.total
-        ),
+        expenses: expensesByCategory.sort((a, b) => b.rolledUp.total.comparedTo(a.rolledUp.total)),
+        income: incomeByCategory.sort((a, b) => b.rolledUp.total.comparedTo(a.rolledUp.total)),
       },
       byWallet: Object.values(byWallet),
+      byTag: Object.values(byTag)
+        .map((item) => ({ ...item, balance: item.income.minus(item.expense) }))
+        .sort((a, b) => b.expense.plus(b.income).comparedTo(a.expense.plus(a.income))),
       highlights: {
         biggestExpense: biggestExpense || null,
         biggestIncome: biggestIncome || null,
@@ -317,6 +357,9 @@ export const getReport = async (req: Request, res: Response) => {
 
     res.json(report);
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao buscar relatório:', error);
     res.status(500).json({ error: 'Erro ao buscar relatório' });
   }
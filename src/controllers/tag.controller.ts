@@ -0,0 +1,176 @@
+/**
+ * Controller de Tags
+ * Gerencia marcadores livres aplicados aos lançamentos (ex: "viagem-2026")
+ */
+
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../lib/prisma';
+
+// ==================== SCHEMAS DE VALIDAÇÃO ====================
+
+const createTagSchema = z.object({
+  name: z.string().trim().min(1, 'Nome é obrigatório').max(50, 'Nome deve ter no máximo 50 caracteres'),
+  color: z.string().default('#6B7280'),
+});
+
+const updateTagSchema = z.object({
+  name: z.string().trim().min(1).max(50, 'Nome deve ter no máximo 50 caracteres').optional(),
+  color: z.string().optional(),
+});
+
+// ==================== CONTROLLERS ====================
+
+/**
+ * Lista todas as tags do usuário com a quantidade de lançamentos de cada uma
+ */
+export const listTags = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const tags = await prisma.tag.findMany({
+      where: { userId },
+      include: {
+        _count: { select: { transactions: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return res.json(tags);
+  } catch (error) {
+    console.error('Erro ao listar tags:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Busca uma tag específica
+ */
+export const getTag = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const tag = await prisma.tag.findFirst({
+      where: { id, userId },
+      include: {
+        _count: { select: { transactions: true } },
+      },
+    });
+
+    if (!tag) {
+      return res.status(404).json({ error: 'Tag não encontrada' });
+    }
+
+    return res.json(tag);
+  } catch (error) {
+    console.error('Erro ao buscar tag:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Cria uma nova tag
+ */
+export const createTag = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = createTagSchema.parse(req.body);
+
+    // O nome da tag é único por usuário
+    const existingTag = await prisma.tag.findFirst({
+      where: { userId, name: data.name },
+    });
+
+    if (existingTag) {
+      return res.status(400).json({ error: 'Já existe uma tag com este nome' });
+    }
+
+    const tag = await prisma.tag.create({
+      data: {
+        ...data,
+        userId,
+      },
+    });
+
+    return res.status(201).json(tag);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao criar tag:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Atualiza uma tag existente
+ */
+export const updateTag = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const data = updateTagSchema.parse(req.body);
+
+    // Verifica se a tag pertence ao usuário
+    const tag = await prisma.tag.findFirst({
+      where: { id, userId },
+    });
+
+    if (!tag) {
+      return res.status(404).json({ error: 'Tag não encontrada' });
+    }
+
+    if (data.name && data.name !== tag.name) {
+      const existingTag = await prisma.tag.findFirst({
+        where: { userId, name: data.name },
+      });
+
+      if (existingTag) {
+        return res.status(400).json({ error: 'Já existe uma tag com este nome' });
+      }
+    }
+
+    const updatedTag = await prisma.tag.update({
+      where: { id },
+      data,
+    });
+
+    return res.json(updatedTag);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao atualizar tag:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Deleta uma tag
+ * Os lançamentos marcados com ela são mantidos, apenas perdem a tag
+ */
+export const deleteTag = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    // Verifica se a tag pertence ao usuário
+    const tag = await prisma.tag.findFirst({
+      where: { id, userId },
+    });
+
+    if (!tag) {
+      return res.status(404).json({ error: 'Tag não encontrada' });
+    }
+
+    await prisma.tag.delete({
+      where: { id },
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Erro ao deletar tag:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -7,13 +7,76 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import crypto from 'crypto';
+import { Category, Prisma, Transaction } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { positiveMoney, splitMoney, sumMoney } from '../lib/money';
+import { buildTagFilter, parseTagIds } from '../lib/tags';
+import { RecurrenceRuleOptions, MAX_RECURRENCE_OCCURRENCES } from '../lib/recurrence';
+import { materializeRecurrence } from '../services/recurrence.service';
+import {
+  addPayment,
+  removeAllPayments,
+  removePayment,
+  syncPaymentsWithTransaction,
+} from '../services/payment.service';
+import { deleteStoredFiles, getAttachmentKeys } from '../services/attachment.service';
+import {
+  assertInvoiceNotPaid,
+  resolveInvoiceId,
+  syncTransactionInvoice,
+  usesInvoices,
+} from '../services/invoice.service';
+import { assertNotReconciled } from '../services/reconciliation.service';
 
 // ==================== SCHEMAS DE VALIDAÇÃO ====================
 
-const createTransactionSchema = z.object({
+// Também usado nas transferências recorrentes
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'], {
+    errorMap: () => ({ message: 'Frequência deve ser DAILY, WEEKLY, MONTHLY ou YEARLY' }),
+  }),
+  interval: z.number().int().positive('Intervalo deve ser positivo').default(1),
+  dayOfMonth: z.number().int().min(1).max(31, 'Dia do mês deve estar entre 1 e 31').optional(),
+  lastDayOfMonth: z.boolean().default(false),
+  endDate: z.string().transform((str) => new Date(str)).optional(),
+  count: z
+    .number()
+    .int()
+    .positive('Número de ocorrências deve ser positivo')
+    .max(MAX_RECURRENCE_OCCURRENCES, `Máximo de ${MAX_RECURRENCE_OCCURRENCES} ocorrências`)
+    .optional(),
+})
+  .refine((data) => !(data.dayOfMonth && data.lastDayOfMonth), {
+    message: 'Informe o dia do mês ou o último dia do mês, não ambos',
+    path: ['dayOfMonth'],
+  })
+  .refine(
+    (data) =>
+      ['MONTHLY', 'YEARLY'].includes(data.frequency) ||
+      (data.dayOfMonth === undefined && !data.lastDayOfMonth),
+    {
+      message: 'Dia do mês só se aplica a recorrências mensais ou anuais',
+      path: ['dayOfMonth'],
+    }
+  )
+  .refine((data) => !(data.endDate && data.count), {
+    message: 'Informe a data final ou o número de ocorrências, não ambos',
+    path: ['count'],
+  });
+
+const splitSchema = z.object({
+  categoryId: z.string().min(1, 'Categoria da divisão é obrigatória'),
+  amount: positiveMoney('Valor da divisão deve ser positivo'),
+  notes: z.string().optional(),
+});
+
+type SplitInput = z.infer<typeof splitSchema>;
+
+// Também valida cada linha da importação de CSV
+export const createTransactionSchema = z.object({
   description: z.string().min(1, 'Descrição é obrigatória'),
-  amount: z.number().positive('Valor deve ser positivo'),
+  amount: positiveMoney('Valor deve ser positivo'),
   type: z.enum(['INCOME', 'EXPENSE'], {
     errorMap: () => ({ message: 'Tipo deve ser INCOME ou EXPENSE' }),
   }),
@@ -21,72 +84,264 @@ const createTransactionSchema = z.object({
   paymentDate: z.string().transform((str) => new Date(str)).optional(),
   isPaid: z.boolean().default(false),
   isRecurring: z.boolean().default(false),
-  recurringType: z.enum(['WEEKLY', 'MONTHLY', 'YEARLY', 'INDEFINITE']).optional(),
+  recurringType: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY', 'INDEFINITE']).optional(),
+  recurrence: recurrenceSchema.optional(),
   isInstallment: z.boolean().default(false),
   installments: z.number().int().positive().optional(),
   notes: z.string().optional(),
   walletId: z.string().min(1, 'Carteira é obrigatória'),
   categoryId: z.string().min(1, 'Categoria é obrigatória'),
+  splits: z.array(splitSchema).min(1, 'Informe ao menos uma divisão').optional(),
+  tagIds: z.array(z.string().min(1)).optional(),
 });
 
 const updateTransactionSchema = z.object({
   description: z.string().min(1).optional(),
-  amount: z.number().positive().optional(),
+  amount: positiveMoney('Valor deve ser positivo').optional(),
+  type: z.enum(['INCOME', 'EXPENSE'], {
+    errorMap: () => ({ message: 'Tipo deve ser INCOME ou EXPENSE' }),
+  }).optional(),
   dueDate: z.string().transform((str) => new Date(str)).optional(),
   paymentDate: z.string().transform((str) => new Date(str)).optional().nullable(),
   isPaid: z.boolean().optional(),
   isRecurring: z.boolean().optional(),
-  recurringType: z.enum(['WEEKLY', 'MONTHLY', 'YEARLY', 'INDEFINITE']).optional().nullable(),
+  recurringType: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY', 'INDEFINITE']).optional().nullable(),
   isInstallment: z.boolean().optional(),
   installments: z.number().int().positive().optional().nullable(),
   currentInstallment: z.number().int().positive().optional().nullable(),
   notes: z.string().optional().nullable(),
   walletId: z.string().optional(),
   categoryId: z.string().optional(),
+  splits: z.array(splitSchema).min(1, 'Informe ao menos uma divisão').optional().nullable(),
+  tagIds: z.array(z.string().min(1)).optional(), // Substitui as tags atuais
+});
+
+const payTransactionSchema = z.object({
+  amount: positiveMoney('Valor do pagamento deve ser positivo').optional(),
+  paymentDate: z.string().transform((str) => new Date(str)).optional(),
+  walletId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const bulkIdsSchema = z
+  .array(z.string().min(1))
+  .min(1, 'Informe ao menos um lançamento')
+  .max(500, 'Máximo de 500 lançamentos por operação');
+
+const bulkTransactionSchema = z.discriminatedUnion(
+  'action',
+  [
+    z.object({
+      action: z.literal('pay'),
+      ids: bulkIdsSchema,
+      paymentDate: z.string().transform((str) => new Date(str)).optional(),
+    }),
+    z.object({
+      action: z.literal('unpay'),
+      ids: bulkIdsSchema,
+    }),
+    z.object({
+      action: z.literal('categorize'),
+      ids: bulkIdsSchema,
+      categoryId: z.string().min(1, 'Categoria é obrigatória'),
+    }),
+    z.object({
+      action: z.literal('move'),
+      ids: bulkIdsSchema,
+      walletId: z.string().min(1, 'Carteira é obrigatória'),
+    }),
+    z.object({
+      action: z.literal('delete'),
+      ids: bulkIdsSchema,
+    }),
+  ],
+  {
+    errorMap: () => ({ message: 'Ação deve ser pay, unpay, categorize, move ou delete' }),
+  }
+);
+
+type BulkTransactionAction = z.infer<typeof bulkTransactionSchema>;
+
+// Escopo de alteração/exclusão de lançamentos agrupados
+const groupScopeSchema = z.enum(['single', 'following', 'all'], {
+  errorMap: () => ({ message: 'Escopo deve ser single, following ou all' }),
 });
 
+type GroupScope = z.infer<typeof groupScopeSchema>;
+
 // ==================== FUNÇÕES AUXILIARES ====================
 
 /**
- * Calcula a próxima data baseada no tipo de recorrência
+ * Monta o filtro dos lançamentos afetados conforme o escopo
+ * - single: apenas o lançamento
+ * - following: o lançamento e os seguintes do grupo (mesmo vencimento ou posterior)
+ * - all: todos do grupo, inclusive os anteriores já pagos
+ * Lançamentos sem grupo são sempre tratados individualmente
  */
-function getNextRecurringDate(currentDate: Date, recurringType: string): Date {
-  const nextDate = new Date(currentDate);
-  
-  switch (recurringType) {
-    case 'WEEKLY':
-      nextDate.setDate(nextDate.getDate() + 7);
+function buildGroupScopeWhere(
+  transaction: Transaction,
+  scope: GroupScope
+): Prisma.TransactionWhereInput {
+  const groupCondition = transaction.recurringGroupId
+    ? { recurringGroupId: transaction.recurringGroupId }
+    : transaction.installmentGroupId
+      ? { installmentGroupId: transaction.installmentGroupId }
+      : null;
+
+  if (scope === 'single' || !groupCondition) {
+    return { id: transaction.id, userId: transaction.userId };
+  }
+
+  return {
+    ...groupCondition,
+    userId: transaction.userId,
+    ...(scope === 'following' && { dueDate: { gte: transaction.dueDate } }),
+  };
+}
+
+/**
+ * Confere se a soma das divisões é igual ao valor do lançamento
+ */
+function assertSplitsTotal(amount: Prisma.Decimal, splits: SplitInput[]) {
+  if (!sumMoney(splits.map((split) => split.amount)).equals(amount)) {
+    throw new AppError('A soma das divisões deve ser igual ao valor do lançamento');
+  }
+}
+
+/**
+ * Confere se as categorias das divisões pertencem ao usuário e são do tipo do lançamento
+ */
+async function assertSplitCategories(userId: string, type: string, splits: SplitInput[]) {
+  const categoryIds = Array.from(new Set(splits.map((split) => split.categoryId)));
+  const categories = await prisma.category.findMany({
+    where: { id: { in: categoryIds }, userId },
+  });
+
+  if (categories.length !== categoryIds.length) {
+    throw new AppError('Categoria da divisão não encontrada', 404);
+  }
+
+  if (categories.some((category) => category.type !== type)) {
+    throw new AppError('Tipo da transação não corresponde ao tipo da categoria da divisão');
+  }
+}
+
+/**
+ * Confere se as tags pertencem ao usuário
+ */
+async function assertUserTags(userId: string, tagIds: string[]) {
+  const uniqueIds = Array.from(new Set(tagIds));
+  const count = await prisma.tag.count({
+    where: { id: { in: uniqueIds }, userId },
+  });
+
+  if (count !== uniqueIds.length) {
+    throw new AppError('Tag não encontrada', 404);
+  }
+}
+
+/**
+ * Impede levar o lançamento para uma carteira de outra moeda
+ * (o valor do lançamento está na moeda da sua carteira)
+ */
+async function assertSameCurrency(
+  tx: Prisma.TransactionClient,
+  transaction: Transaction,
+  walletId: string
+) {
+  if (walletId === transaction.walletId) {
+    return;
+  }
+
+  const [current, target] = await Promise.all([
+    tx.wallet.findUniqueOrThrow({ where: { id: transaction.walletId } }),
+    tx.wallet.findUniqueOrThrow({ where: { id: walletId } }),
+  ]);
+
+  if (current.currency !== target.currency) {
+    throw new AppError('Lançamento não pode ser movido para uma carteira de outra moeda');
+  }
+}
+
+/**
+ * Aplica a ação em massa a um lançamento, com as mesmas regras das rotas individuais
+ * Um erro de regra de negócio (AppError) pode ocorrer depois de escritas parciais;
+ * quem chama desfaz o item inteiro (ver bulkTransactions)
+ */
+async function applyBulkAction(
+  tx: Prisma.TransactionClient,
+  transaction: Transaction,
+  data: BulkTransactionAction,
+  category: Category | null
+) {
+  await assertNotReconciled(tx, transaction);
+
+  switch (data.action) {
+    case 'pay':
+      await addPayment(tx, transaction, { date: data.paymentDate });
+      break;
+
+    case 'unpay':
+      if (transaction.paidAmount.isZero()) {
+        throw new AppError('Lançamento não possui pagamentos');
+      }
+      await assertInvoiceNotPaid(tx, transaction);
+      await removeAllPayments(tx, transaction);
       break;
-    case 'MONTHLY':
-      nextDate.setMonth(nextDate.getMonth() + 1);
+
+    case 'categorize':
+      if (category && category.type !== transaction.type) {
+        throw new AppError('Tipo da transação não corresponde ao tipo da categoria');
+      }
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: { categoryId: data.categoryId },
+      });
       break;
-    case 'YEARLY':
-      nextDate.setFullYear(nextDate.getFullYear() + 1);
+
+    case 'move': {
+      await assertSameCurrency(tx, transaction, data.walletId);
+
+      const moved = { ...transaction, walletId: data.walletId };
+      await syncTransactionInvoice(tx, transaction, moved);
+      await syncPaymentsWithTransaction(tx, transaction, moved);
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: { walletId: data.walletId },
+      });
       break;
-    case 'INDEFINITE':
-      nextDate.setMonth(nextDate.getMonth() + 1); // Padrão mensal para indefinido
+    }
+
+    case 'delete':
+      await assertInvoiceNotPaid(tx, transaction);
+      if (transaction.paidAmount.greaterThan(0)) {
+        await removeAllPayments(tx, transaction);
+      }
+      await tx.transaction.delete({ where: { id: transaction.id } });
       break;
   }
-  
-  return nextDate;
 }
 
 /**
- * Gera array com todas as datas de recorrência
+ * Monta a regra de recorrência a partir dos dados do lançamento
+ * O recurringType antigo equivale a uma regra "a cada 1" sem data final
  */
-function generateRecurringDates(startDate: Date, recurringType: string): Date[] {
-  const dates: Date[] = [];
-  let currentDate = new Date(startDate);
-  
-  // Se indefinido, gera 36 meses
-  const maxOccurrences = recurringType === 'INDEFINITE' ? 36 : 36;
-  
-  for (let i = 0; i < maxOccurrences; i++) {
-    dates.push(new Date(currentDate));
-    currentDate = getNextRecurringDate(currentDate, recurringType);
+function buildRecurrenceRule(
+  startDate: Date,
+  recurrence: z.infer<typeof recurrenceSchema> | undefined,
+  recurringType: string | undefined
+): RecurrenceRuleOptions {
+  if (recurrence) {
+    return { ...recurrence, startDate };
   }
-  
-  return dates;
+
+  return {
+    frequency: recurringType === 'INDEFINITE' || !recurringType
+      ? 'MONTHLY'
+      : (recurringType as RecurrenceRuleOptions['frequency']),
+    interval: 1,
+    startDate,
+  };
 }
 
 /**
@@ -108,20 +363,39 @@ function generateInstallmentDates(startDate: Date, installments: number): Date[]
 
 /**
  * Lista todos os lançamentos do usuário
- * Suporta filtros: tipo, período, status de pagamento
+ * Suporta filtros: tipo, período, status de pagamento (isPaid ou status OPEN/PARTIAL/PAID)
+ * e tags (tagIds separados por vírgula; tagMode=any para qualquer uma ou all para todas)
  */
 export const listTransactions = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const { type, isPaid, startDate, endDate, walletId, categoryId } = req.query;
+    const {
+      type,
+      isPaid,
+      status,
+      startDate,
+      endDate,
+      walletId,
+      categoryId,
+      tagIds,
+      tagMode,
+    } = req.query;
 
     const transactions = await prisma.transaction.findMany({
       where: {
         userId,
         ...(type && { type: type as string }),
         ...(isPaid !== undefined && { isPaid: isPaid === 'true' }),
+        ...(status && { status: status as string }),
         ...(walletId && { walletId: walletId as string }),
-        ...(categoryId && { categoryId: categoryId as string }),
+        // A categoria pode ser a principal ou a de uma das divisões
+        ...(categoryId && {
+          OR: [
+            { categoryId: categoryId as string },
+            { splits: { some: { categoryId: categoryId as string } } },
+          ],
+        }),
+        ...buildTagFilter(parseTagIds(tagIds), tagMode === 'all' ? 'all' : 'any'),
         ...(startDate && endDate && {
           dueDate: {
             gte: new Date(startDate as string),
@@ -147,6 +421,26 @@ export const listTransactions = async (req: Request, res: Response) => {
             type: true,
           },
         },
+        splits: {
+          include: {
+            category: {
+              select: {
+                id: true,
+                name: true,
+                color: true,
+                icon: true,
+                type: true,
+              },
+            },
+          },
+        },
+        tags: {
+          select: {
+            id: true,
+            name: true,
+            color: true,
+          },
+        },
       },
       orderBy: { dueDate: 'desc' },
     });
@@ -174,6 +468,9 @@ export const getTransaction = async (req: Request, res: Response) => {
       include: {
         wallet: true,
         category: true,
+        splits: { include: { category: true } },
+        tags: true,
+        invoice: true,
       },
     });
 
@@ -192,6 +489,8 @@ export const getTransaction = async (req: Request, res: Response) => {
  * Cria um novo lançamento
  * Suporta lançamentos recorrentes e parcelados
  * Atualiza o saldo da carteira automaticamente se o lançamento estiver pago
+ * Em cartões de crédito com fatura, a compra entra na fatura do período (cada parcela
+ * em uma fatura seguinte) e é paga pelo cartão na hora, consumindo o limite
  */
 export const createTransaction = async (req: Request, res: Response) => {
   try {
@@ -226,10 +525,30 @@ export const createTransaction = async (req: Request, res: Response) => {
       });
     }
 
+    // Divisões por categoria: soma igual ao total e categorias do mesmo tipo
+    if (data.splits) {
+      assertSplitsTotal(data.amount, data.splits);
+      await assertSplitCategories(userId, data.type, data.splits);
+    }
+
+    if (data.tagIds) {
+      await assertUserTags(userId, data.tagIds);
+    }
+
+    const tagConnect = data.tagIds?.length
+      ? { tags: { connect: data.tagIds.map((tagId) => ({ id: tagId })) } }
+      : {};
+
     // Validações de recorrência e parcelamento
-    if (data.isRecurring && !data.recurringType) {
+    if (data.isRecurring && !data.recurringType && !data.recurrence) {
       return res.status(400).json({
-        error: 'Tipo de recorrência é obrigatório para lançamentos recorrentes',
+        error: 'Regra ou tipo de recorrência é obrigatório para lançamentos recorrentes',
+      });
+    }
+
+    if (data.recurrence?.endDate && data.recurrence.endDate < data.dueDate) {
+      return res.status(400).json({
+        error: 'Data final da recorrência deve ser posterior ao vencimento',
       });
     }
 
@@ -245,53 +564,65 @@ export const createTransaction = async (req: Request, res: Response) => {
       });
     }
 
+    const isCardPurchase = usesInvoices(wallet);
+
     // Cria a(s) transação(ões)
     const transactions = await prisma.$transaction(async (tx) => {
       const createdTransactions = [];
 
       // Lançamento Recorrente
-      if (data.isRecurring && data.recurringType) {
-        const recurringGroupId = crypto.randomUUID();
-        const dates = generateRecurringDates(data.dueDate, data.recurringType);
+      if (data.isRecurring) {
+        const rule = buildRecurrenceRule(data.dueDate, data.recurrence, data.recurringType);
 
-        for (const dueDate of dates) {
-          const newTransaction = await tx.transaction.create({
-            data: {
-              description: data.description,
-              amount: data.amount,
-              type: data.type,
-              dueDate,
-              isPaid: false, // Recorrentes sempre começam não pagos
-              isRecurring: true,
-              recurringType: data.recurringType,
-              recurringGroupId,
-              notes: data.notes,
-              userId,
-              walletId: data.walletId,
-              categoryId: data.categoryId,
-            },
-            include: {
-              wallet: true,
-              category: true,
-            },
-          });
-          createdTransactions.push(newTransaction);
-        }
+        // A regra é salva e seu id agrupa os lançamentos gerados
+        const recurrenceRule = await tx.recurrenceRule.create({
+          data: {
+            id: crypto.randomUUID(),
+            frequency: rule.frequency,
+            interval: rule.interval,
+            dayOfMonth: rule.dayOfMonth,
+            lastDayOfMonth: rule.lastDayOfMonth,
+            startDate: rule.startDate,
+            endDate: rule.endDate,
+            count: rule.count,
+            userId,
+          },
+        });
+
+        // Gera as ocorrências até o horizonte móvel; o job estende as demais
+        const occurrences = await materializeRecurrence(tx, recurrenceRule, {
+          description: data.description,
+          amount: data.amount,
+          type: data.type,
+          recurringType: data.recurringType ?? rule.frequency,
+          notes: data.notes ?? null,
+          walletId: data.walletId,
+          categoryId: data.categoryId,
+          splits: data.splits?.map((split) => ({ ...split, notes: split.notes ?? null })),
+          tagIds: data.tagIds,
+        });
+        createdTransactions.push(...occurrences);
       }
       // Lançamento Parcelado
       else if (data.isInstallment && data.installments) {
         const installmentGroupId = crypto.randomUUID();
         const dates = generateInstallmentDates(data.dueDate, data.installments);
-        const installmentAmount = data.amount / data.installments;
+        // Divide em centavos; a sobra fica na primeira parcela
+        // Com divisões, cada linha é parcelada e a parcela é a soma das suas linhas
+        const splitParts = data.splits?.map((split) => splitMoney(split.amount, data.installments!));
+        const installmentAmounts = splitParts
+          ? dates.map((_, i) => sumMoney(splitParts.map((parts) => parts[i])))
+          : splitMoney(data.amount, data.installments);
 
         for (let i = 0; i < dates.length; i++) {
           const newTransaction = await tx.transaction.create({
             data: {
+              invoiceId: await resolveInvoiceId(tx, wallet, data.dueDate, i),
               description: `${data.description} (${i + 1}/${data.installments})`,
-              amount: installmentAmount,
+              amount: installmentAmounts[i],
               type: data.type,
               dueDate: dates[i],
-              isPaid: false, // Parcelados sempre começam não pagos
+              isPaid: false, // Parcelados começam não pagos (no cartão, são pagos logo abaixo)
               isInstallment: true,
               installments: data.installments,
               currentInstallment: i + 1,
@@ -300,50 +631,76 @@ export const createTransaction = async (req: Request, res: Response) => {
               userId,
               walletId: data.walletId,
               categoryId: data.categoryId,
-            },
-            include: {
-              wallet: true,
-              category: true,
+              ...(splitParts && {
+                splits: {
+                  create: data.splits!.map((split, j) => ({
+                    categoryId: split.categoryId,
+                    amount: splitParts[j][i],
+                    notes: split.notes,
+                  })),
+                },
+              }),
+              ...tagConnect,
             },
           });
-          createdTransactions.push(newTransaction);
+
+          // Compras parceladas no cartão consomem o limite total na data da compra
+          if (isCardPurchase) {
+            await addPayment(tx, newTransaction, { date: data.dueDate });
+          }
+
+          createdTransactions.push(
+            await tx.transaction.findUniqueOrThrow({
+              where: { id: newTransaction.id },
+              include: {
+                wallet: true,
+                category: true,
+                splits: true,
+                tags: true,
+                invoice: true,
+              },
+            })
+          );
         }
       }
       // Lançamento Normal
       else {
         const newTransaction = await tx.transaction.create({
           data: {
+            invoiceId: await resolveInvoiceId(tx, wallet, data.dueDate),
             description: data.description,
             amount: data.amount,
             type: data.type,
             dueDate: data.dueDate,
-            isPaid: data.isPaid,
-            paymentDate: data.paymentDate,
             notes: data.notes,
             userId,
             walletId: data.walletId,
             categoryId: data.categoryId,
-          },
-          include: {
-            wallet: true,
-            category: true,
+            ...(data.splits && { splits: { create: data.splits } }),
+            ...tagConnect,
           },
         });
 
-        // Se a transação estiver paga, atualiza o saldo da carteira
-        if (data.isPaid) {
-          const balanceChange = data.type === 'INCOME' ? data.amount : -data.amount;
-          await tx.wallet.update({
-            where: { id: data.walletId },
-            data: {
-              balance: {
-                increment: balanceChange,
-              },
-            },
+        // Se a transação estiver paga, registra o pagamento integral (atualiza o saldo da carteira)
+        // Compras no cartão são sempre pagas pelo cartão
+        if (data.isPaid || isCardPurchase) {
+          await addPayment(tx, newTransaction, {
+            date: data.paymentDate ?? (isCardPurchase ? data.dueDate : undefined),
           });
         }
 
-        createdTransactions.push(newTransaction);
+        createdTransactions.push(
+          await tx.transaction.findUniqueOrThrow({
+            where: { id: newTransaction.id },
+            include: {
+              wallet: true,
+              category: true,
+              splits: true,
+              tags: true,
+              invoice: true,
+            },
+          })
+        );
       }
 
       return createdTransactions;
@@ -354,6 +711,9 @@ export const createTransaction = async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao criar lançamento:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -361,14 +721,18 @@ export const createTransaction = async (req: Request, res: Response) => {
 
 /**
  * Atualiza um lançamento existente
- * Permite escolher entre atualizar apenas o atual ou todos do grupo (recorrentes/parcelados)
- * Ajusta o saldo da carteira se o status de pagamento mudar
+ * Permite escolher entre atualizar apenas o atual, o atual e os seguintes
+ * ou todos do grupo (recorrentes/parcelados)
+ * Ajusta o saldo das carteiras se o status de pagamento mudar ou se o valor,
+ * a carteira ou o tipo de um lançamento com pagamentos for alterado
  */
 export const updateTransaction = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id } = req.params;
-    const { updateAll, ...updateData } = req.body; // updateAll: boolean para atualizar grupo inteiro
+    // scope: 'single' | 'following' | 'all' (updateAll: true equivale a 'all')
+    const { updateAll, scope: scopeParam, ...updateData } = req.body;
+    const scope = groupScopeSchema.parse(scopeParam ?? (updateAll ? 'all' : 'single'));
     const data = updateTransactionSchema.parse(updateData);
 
     // Busca a transação atual
@@ -396,76 +760,147 @@ export const updateTransaction = async (req: Request, res: Response) => {
       }
     }
 
-    // Determina quais transações atualizar
-    const whereCondition: any = { id, userId };
-    
-    if (updateAll) {
-      // Se tem grupo de recorrência, atualiza todos do grupo
-      if (currentTransaction.recurringGroupId) {
-        whereCondition.recurringGroupId = currentTransaction.recurringGroupId;
-        delete whereCondition.id;
-      }
-      // Se tem grupo de parcelamento, atualiza todos do grupo
-      else if (currentTransaction.installmentGroupId) {
-        whereCondition.installmentGroupId = currentTransaction.installmentGroupId;
-        delete whereCondition.id;
+    if (data.splits) {
+      await assertSplitCategories(userId, data.type ?? currentTransaction.type, data.splits);
+    }
+
+    if (data.tagIds) {
+      await assertUserTags(userId, data.tagIds);
+    }
+
+    // Se está mudando o tipo ou a categoria, o tipo da categoria deve continuar correspondendo
+    if (data.type || data.categoryId) {
+      const category = await prisma.category.findFirst({
+        where: { id: data.categoryId ?? currentTransaction.categoryId, userId },
+      });
+
+      if (category && category.type !== (data.type ?? currentTransaction.type)) {
+        return res.status(400).json({
+          error: 'Tipo da transação não corresponde ao tipo da categoria',
+        });
       }
     }
 
+    // Determina quais transações atualizar
+    const whereCondition = buildGroupScopeWhere(currentTransaction, scope);
+
+    // Vencimento e número da parcela são próprios de cada lançamento:
+    // ao atualizar um grupo, só são aplicados ao lançamento atual
+    // O status de pagamento é derivado dos pagamentos e tratado à parte
+    const {
+      isPaid,
+      paymentDate,
+      dueDate,
+      currentInstallment,
+      splits,
+      tagIds,
+      ...groupData
+    } = data;
+
     // Atualiza a(s) transação(ões)
     const transactions = await prisma.$transaction(async (tx) => {
-      // Se o status de pagamento mudou, ajusta os saldos
-      if (data.isPaid !== undefined && data.isPaid !== currentTransaction.isPaid) {
-        const amount = data.amount || currentTransaction.amount;
-        const walletId = data.walletId || currentTransaction.walletId;
-        const type = currentTransaction.type;
-
-        const balanceChange = type === 'INCOME' ? amount : -amount;
-        const increment = data.isPaid ? balanceChange : -balanceChange;
-
-        // Reverte o saldo antigo se estava pago
-        if (currentTransaction.isPaid && currentTransaction.walletId !== walletId) {
-          const oldBalanceChange = type === 'INCOME' ? currentTransaction.amount : -currentTransaction.amount;
-          await tx.wallet.update({
-            where: { id: currentTransaction.walletId },
-            data: { balance: { increment: -oldBalanceChange } },
-          });
-        }
+      const targets = await tx.transaction.findMany({
+        where: whereCondition,
+      });
+      const targetIds = targets.map((t) => t.id);
 
-        // Aplica o novo saldo
-        await tx.wallet.update({
-          where: { id: walletId },
-          data: { balance: { increment } },
-        });
+      // Lançamentos conciliados com o extrato não podem ser alterados
+      for (const target of targets) {
+        await assertNotReconciled(tx, target);
       }
 
       // Atualiza uma ou várias transações
       if (whereCondition.id) {
-        const updated = await tx.transaction.update({
+        await tx.transaction.update({
           where: { id },
-          data,
-          include: {
-            wallet: true,
-            category: true,
+          data: {
+            ...groupData,
+            dueDate,
+            currentInstallment,
+            // Sem mudança de status, a data de pagamento pode ser corrigida diretamente
+            ...(isPaid === undefined && paymentDate !== undefined && { paymentDate }),
           },
         });
-        return [updated];
       } else {
         await tx.transaction.updateMany({
           where: whereCondition,
-          data,
+          data: groupData,
         });
-        
-        // Busca as transações atualizadas
-        const updated = await tx.transaction.findMany({
-          where: whereCondition,
-          include: {
-            wallet: true,
-            category: true,
-          },
+
+        if (dueDate !== undefined || currentInstallment !== undefined) {
+          await tx.transaction.update({
+            where: { id },
+            data: { dueDate, currentInstallment },
+          });
+        }
+      }
+
+      for (const before of targets) {
+        const after = await tx.transaction.findUniqueOrThrow({
+          where: { id: before.id },
+          include: { splits: true },
         });
-        return updated;
+
+        // Divisões informadas substituem as atuais (null remove) e devem somar o valor final
+        if (splits !== undefined) {
+          await tx.transactionSplit.deleteMany({ where: { transactionId: after.id } });
+
+          if (splits) {
+            assertSplitsTotal(after.amount, splits);
+            await tx.transactionSplit.createMany({
+              data: splits.map((split) => ({ ...split, transactionId: after.id })),
+            });
+          }
+        } else if (
+          after.splits.length > 0 &&
+          (!after.amount.equals(before.amount) || after.type !== before.type)
+        ) {
+          throw new AppError('Informe as divisões ao alterar o valor ou o tipo de um lançamento dividido');
+        }
+
+        if (tagIds) {
+          await tx.transaction.update({
+            where: { id: after.id },
+            data: { tags: { set: tagIds.map((tagId) => ({ id: tagId })) } },
+          });
+        }
+
+        await assertSameCurrency(tx, before, after.walletId);
+
+        // Mudança de carteira ou data leva o lançamento para a fatura correspondente
+        await syncTransactionInvoice(tx, before, after);
+
+        // Mudanças de valor, carteira ou tipo em lançamentos com pagamentos são reaplicadas nos saldos
+        await syncPaymentsWithTransaction(tx, before, after);
       }
+
+      // Se o status de pagamento mudou, registra ou remove os pagamentos (ajusta os saldos)
+      if (isPaid !== undefined) {
+        for (const targetId of targetIds) {
+          const target = await tx.transaction.findUniqueOrThrow({
+            where: { id: targetId },
+          });
+
+          if (isPaid && !target.isPaid) {
+            await addPayment(tx, target, { date: paymentDate ?? undefined });
+          } else if (!isPaid && target.paidAmount.greaterThan(0)) {
+            await assertInvoiceNotPaid(tx, target);
+            await removeAllPayments(tx, target);
+          }
+        }
+      }
+
+      // Busca as transações atualizadas
+      return tx.transaction.findMany({
+        where: { id: { in: targetIds } },
+        include: {
+          wallet: true,
+          category: true,
+          splits: true,
+          tags: true,
+        },
+        orderBy: { dueDate: 'asc' },
+      });
     });
 
     return res.json(transactions);
@@ -473,6 +908,9 @@ export const updateTransaction = async (req: Request, res: Response) => {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao atualizar lançamento:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -480,14 +918,18 @@ export const updateTransaction = async (req: Request, res: Response) => {
 
 /**
  * Deleta um lançamento
- * Permite escolher entre deletar apenas o atual ou todos do grupo (recorrentes/parcelados)
+ * Permite escolher entre deletar apenas o atual, o atual e os seguintes
+ * ou todos do grupo (recorrentes/parcelados)
  * Reverte o saldo da carteira se o lançamento estava pago
+ * Apaga os arquivos anexados depois que a exclusão é confirmada
  */
 export const deleteTransaction = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id } = req.params;
-    const { deleteAll } = req.query; // deleteAll: 'true' para deletar grupo inteiro
+    // scope: 'single' | 'following' | 'all' (deleteAll=true equivale a 'all')
+    const { deleteAll, scope: scopeParam } = req.query;
+    const scope = groupScopeSchema.parse(scopeParam ?? (deleteAll === 'true' ? 'all' : 'single'));
 
     const transaction = await prisma.transaction.findFirst({
       where: { id, userId },
@@ -497,78 +939,76 @@ export const deleteTransaction = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Lançamento não encontrado' });
     }
 
-    await prisma.$transaction(async (tx) => {
+    const attachmentKeys = await prisma.$transaction(async (tx) => {
       // Determina quais transações deletar
-      const whereCondition: any = { id, userId };
-      let transactionsToDelete: any[] = [transaction];
-
-      if (deleteAll === 'true') {
-        // Se tem grupo de recorrência, busca todos do grupo
-        if (transaction.recurringGroupId) {
-          transactionsToDelete = await tx.transaction.findMany({
-            where: { 
-              recurringGroupId: transaction.recurringGroupId,
-              userId 
-            },
-          });
-          whereCondition.recurringGroupId = transaction.recurringGroupId;
-          delete whereCondition.id;
-        }
-        // Se tem grupo de parcelamento, busca todos do grupo
-        else if (transaction.installmentGroupId) {
-          transactionsToDelete = await tx.transaction.findMany({
-            where: { 
-              installmentGroupId: transaction.installmentGroupId,
-              userId 
-            },
-          });
-          whereCondition.installmentGroupId = transaction.installmentGroupId;
-          delete whereCondition.id;
-        }
+      const whereCondition = buildGroupScopeWhere(transaction, scope);
+      const transactionsToDelete = await tx.transaction.findMany({
+        where: whereCondition,
+      });
+      const keys = await getAttachmentKeys(tx, transactionsToDelete.map((t) => t.id));
+
+      // Lançamentos de faturas já pagas ou conciliados com o extrato não podem ser excluídos
+      for (const t of transactionsToDelete) {
+        await assertInvoiceNotPaid(tx, t);
+        await assertNotReconciled(tx, t);
       }
 
-      // Reverte saldo de todas as transações pagas
+      // Reverte o saldo de todos os pagamentos (totais ou parciais)
       for (const t of transactionsToDelete) {
-        if (t.isPaid) {
-          const balanceChange = t.type === 'INCOME' ? -t.amount : t.amount;
-          await tx.wallet.update({
-            where: { id: t.walletId },
-            data: {
-              balance: {
-                increment: balanceChange,
-              },
-            },
-          });
+        if (t.paidAmount.greaterThan(0)) {
+          await removeAllPayments(tx, t);
         }
       }
 
       // Deleta a(s) transação(ões)
-      if (whereCondition.id) {
-        await tx.transaction.delete({
-          where: { id },
+      await tx.transaction.deleteMany({
+        where: whereCondition,
+      });
+
+      // Ajusta a regra de recorrência junto com o grupo
+      if (transaction.recurringGroupId && scope === 'all') {
+        await tx.recurrenceRule.deleteMany({
+          where: { id: transaction.recurringGroupId, userId },
         });
-      } else {
-        await tx.transaction.deleteMany({
-          where: whereCondition,
+      } else if (transaction.recurringGroupId && scope === 'following') {
+        // Encerra a série antes deste lançamento para o job não gerar novas ocorrências
+        await tx.recurrenceRule.updateMany({
+          where: { id: transaction.recurringGroupId, userId },
+          data: {
+            endDate: new Date(transaction.dueDate.getTime() - 1),
+            isActive: false,
+          },
         });
       }
+
+      return keys;
     });
 
+    await deleteStoredFiles(attachmentKeys);
+
     return res.status(204).send();
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao deletar lançamento:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
 
 /**
- * Marca um lançamento como pago
+ * Registra um pagamento do lançamento
+ * Sem valor informado, paga todo o valor pendente (comportamento original)
+ * Aceita pagamentos parciais e carteira de origem diferente da do lançamento
  */
 export const payTransaction = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
     const { id } = req.params;
-    const { paymentDate } = req.body;
+    const data = payTransactionSchema.parse(req.body);
 
     const transaction = await prisma.transaction.findFirst({
       where: { id, userId },
@@ -578,32 +1018,66 @@ export const payTransaction = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Lançamento não encontrado' });
     }
 
-    if (transaction.isPaid) {
-      return res.status(400).json({ error: 'Lançamento já está pago' });
-    }
-
     const updated = await prisma.$transaction(async (tx) => {
-      // Atualiza o saldo da carteira
-      const balanceChange = transaction.type === 'INCOME' 
-        ? transaction.amount 
-        : -transaction.amount;
-
-      await tx.wallet.update({
-        where: { id: transaction.walletId },
-        data: {
-          balance: {
-            increment: balanceChange,
-          },
-        },
+      await assertNotReconciled(tx, transaction);
+      await addPayment(tx, transaction, {
+        amount: data.amount,
+        date: data.paymentDate,
+        walletId: data.walletId,
+        notes: data.notes,
       });
 
-      // Marca como pago
-      return tx.transaction.update({
+      return tx.transaction.findUniqueOrThrow({
         where: { id },
-        data: {
-          isPaid: true,
-          paymentDate: paymentDate ? new Date(paymentDate) : new Date(),
+        include: {
+          wallet: true,
+          category: true,
+          payments: { orderBy: { date: 'asc' } },
         },
+      });
+    });
+
+    return res.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao registrar pagamento:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Desfaz o pagamento de um lançamento
+ * Remove todos os pagamentos (totais ou parciais) e reverte os saldos das carteiras
+ */
+export const unpayTransaction = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Lançamento não encontrado' });
+    }
+
+    if (transaction.paidAmount.isZero()) {
+      return res.status(400).json({ error: 'Lançamento não possui pagamentos' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await assertInvoiceNotPaid(tx, transaction);
+      await assertNotReconciled(tx, transaction);
+      await removeAllPayments(tx, transaction);
+
+      return tx.transaction.findUniqueOrThrow({
+        where: { id },
         include: {
           wallet: true,
           category: true,
@@ -613,7 +1087,234 @@ export const payTransaction = async (req: Request, res: Response) => {
 
     return res.json(updated);
   } catch (error) {
-    console.error('Erro ao marcar lançamento como pago:', error);
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao desfazer pagamento:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Lista os pagamentos de um lançamento
+ */
+export const listPayments = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Lançamento não encontrado' });
+    }
+
+    const payments = await prisma.payment.findMany({
+      where: { transactionId: id, userId },
+      include: {
+        wallet: {
+          select: {
+            id: true,
+            name: true,
+            color: true,
+            icon: true,
+          },
+        },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    return res.json(payments);
+  } catch (error) {
+    console.error('Erro ao listar pagamentos:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Remove um pagamento do lançamento
+ * Reverte o saldo da carteira de origem e recalcula o status do lançamento
+ */
+export const deletePayment = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id, paymentId } = req.params;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Lançamento não encontrado' });
+    }
+
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, transactionId: id, userId },
+    });
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Pagamento não encontrado' });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await assertInvoiceNotPaid(tx, transaction);
+      await assertNotReconciled(tx, transaction);
+      await removePayment(tx, transaction, payment);
+    });
+
+    return res.status(204).send();
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao remover pagamento:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Desfaz a conciliação de um lançamento
+ * O lançamento volta a ficar em aberto na conciliação e pode ser alterado novamente
+ */
+export const unreconcileTransaction = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transaction) {
+      return res.status(404).json({ error: 'Lançamento não encontrado' });
+    }
+
+    if (!transaction.reconciliationId) {
+      return res.status(400).json({ error: 'Lançamento não está conciliado' });
+    }
+
+    const updated = await prisma.transaction.update({
+      where: { id },
+      data: { reconciliationId: null },
+      include: {
+        wallet: true,
+        category: true,
+      },
+    });
+
+    return res.json(updated);
+  } catch (error) {
+    console.error('Erro ao desfazer conciliação do lançamento:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Executa uma ação em vários lançamentos de uma vez
+ * Ações: pay, unpay, categorize (categoryId), move (walletId) e delete
+ * Tudo roda em uma única transação do banco; lançamentos que não podem receber
+ * a ação (não encontrados, já pagos, tipo diferente da categoria...) são
+ * ignorados e informados no resultado de cada item
+ */
+export const bulkTransactions = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const data = bulkTransactionSchema.parse(req.body);
+    const ids = Array.from(new Set(data.ids));
+
+    // Valida o destino da ação uma única vez
+    let category: Category | null = null;
+
+    if (data.action === 'categorize') {
+      category = await prisma.category.findFirst({
+        where: { id: data.categoryId, userId },
+      });
+
+      if (!category) {
+        return res.status(404).json({ error: 'Categoria não encontrada' });
+      }
+    }
+
+    if (data.action === 'move') {
+      const wallet = await prisma.wallet.findFirst({
+        where: { id: data.walletId, userId },
+      });
+
+      if (!wallet) {
+        return res.status(404).json({ error: 'Carteira não encontrada' });
+      }
+
+      if (!wallet.isActive) {
+        return res.status(400).json({
+          error: 'Não é possível mover lançamentos para uma carteira inativa',
+        });
+      }
+    }
+
+    // Arquivos anexados aos lançamentos excluídos são apagados após a confirmação
+    const attachmentKeys = new Map<string, string[]>();
+
+    const results = await prisma.$transaction(
+      async (tx) => {
+        const transactions = await tx.transaction.findMany({
+          where: { id: { in: ids }, userId },
+        });
+        const transactionsById = new Map(transactions.map((t) => [t.id, t]));
+        const itemResults: { id: string; success: boolean; error?: string }[] = [];
+
+        for (const id of ids) {
+          const transaction = transactionsById.get(id);
+
+          if (!transaction) {
+            itemResults.push({ id, success: false, error: 'Lançamento não encontrado' });
+            continue;
+          }
+
+          // Cada item roda num savepoint: uma recusa desfaz só as escritas daquele item
+          await tx.$executeRaw`SAVEPOINT bulk_item`;
+
+          try {
+            if (data.action === 'delete') {
+              attachmentKeys.set(id, await getAttachmentKeys(tx, [id]));
+            }
+            await applyBulkAction(tx, transaction, data, category);
+            await tx.$executeRaw`RELEASE SAVEPOINT bulk_item`;
+            itemResults.push({ id, success: true });
+          } catch (error) {
+            if (error instanceof AppError) {
+              await tx.$executeRaw`ROLLBACK TO SAVEPOINT bulk_item`;
+              itemResults.push({ id, success: false, error: error.message });
+              continue;
+            }
+            throw error;
+          }
+        }
+
+        return itemResults;
+      },
+      { timeout: 60000 }
+    );
+
+    await deleteStoredFiles(
+      results.filter((r) => r.success).flatMap((r) => attachmentKeys.get(r.id) ?? [])
+    );
+
+    const succeeded = results.filter((r) => r.success).length;
+
+    return res.json({
+      action: data.action,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao executar operação em massa:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
@@ -5,34 +5,104 @@
 
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Prisma, Transfer, Wallet } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { ZERO, positiveMoney } from '../lib/money';
+import { getCreditedAmount } from '../lib/currencies';
+import {
+  buildReversalEntries,
+  buildTransferEntry,
+  postJournalEntries,
+  reverseJournalEntries,
+} from '../services/ledger.service';
+import { convertAmount } from '../services/exchange-rate.service';
+import { resolveInvoiceId } from '../services/invoice.service';
+import { assertTransferNotReconciled } from '../services/reconciliation.service';
+import { materializeTransferRecurrence } from '../services/recurrence.service';
+import {
+  TransferTemplate,
+  createTransferFee,
+  executeTransfer,
+  hasSufficientBalance,
+  removeTransferFee,
+  scheduleTransfer,
+} from '../services/transfer.service';
+import { recurrenceSchema } from './transaction.controller';
 
 // ==================== SCHEMAS DE VALIDAÇÃO ====================
 
 const createTransferSchema = z.object({
-  amount: z.number().positive('Valor deve ser positivo'),
+  amount: positiveMoney('Valor deve ser positivo'),
+  toAmount: positiveMoney('Valor de destino deve ser positivo').optional(), // Entre moedas diferentes
   description: z.string().optional(),
   date: z.string().transform((str) => new Date(str)).optional(),
   fromWalletId: z.string().min(1, 'Carteira de origem é obrigatória'),
   toWalletId: z.string().min(1, 'Carteira de destino é obrigatória'),
+  fee: positiveMoney('Tarifa deve ser positiva').optional(), // Ex.: tarifa de TED
+  feeCategoryId: z.string().min(1).optional(), // Padrão: categoria "Tarifas bancárias"
+  recurrence: recurrenceSchema.optional(), // Transferência recorrente
 }).refine((data) => data.fromWalletId !== data.toWalletId, {
   message: 'Carteira de origem e destino devem ser diferentes',
   path: ['toWalletId'],
 });
 
+const updateTransferSchema = z.object({
+  amount: positiveMoney('Valor deve ser positivo').optional(),
+  toAmount: positiveMoney('Valor de destino deve ser positivo').optional(),
+  description: z.string().nullable().optional(),
+  date: z.string().transform((str) => new Date(str)).optional(),
+  fromWalletId: z.string().min(1).optional(),
+  toWalletId: z.string().min(1).optional(),
+  fee: positiveMoney('Tarifa deve ser positiva').nullable().optional(), // null remove a tarifa
+  feeCategoryId: z.string().min(1).optional(),
+});
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Valor creditado na carteira de destino: na mesma moeda é o próprio valor;
+ * entre moedas diferentes é o informado ou o convertido pela cotação vigente na data
+ */
+async function resolveToAmount(
+  fromWallet: Wallet,
+  toWallet: Wallet,
+  amount: Prisma.Decimal,
+  toAmount: Prisma.Decimal | undefined,
+  date: Date
+) {
+  if (fromWallet.currency === toWallet.currency) {
+    if (toAmount && !toAmount.equals(amount)) {
+      throw new AppError('Valor de destino só pode ser diferente entre carteiras de moedas diferentes');
+    }
+    return amount;
+  }
+
+  return toAmount ?? convertAmount(
+    prisma,
+    fromWallet.userId,
+    amount,
+    fromWallet.currency,
+    toWallet.currency,
+    date
+  );
+}
+
 // ==================== CONTROLLERS ====================
 
 /**
  * Lista todas as transferências do usuário
+ * Filtros: ?startDate=&endDate=&status=PENDING|COMPLETED
  */
 export const listTransfers = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, status } = req.query;
 
     const transfers = await prisma.transfer.findMany({
       where: {
         userId,
+        ...(status && { status: status as string }),
         ...(startDate && endDate && {
           date: {
             gte: new Date(startDate as string),
@@ -57,6 +127,7 @@ export const listTransfers = async (req: Request, res: Response) => {
             icon: true,
           },
         },
+        feeTransaction: true,
       },
       orderBy: { date: 'desc' },
     });
@@ -84,6 +155,7 @@ export const getTransfer = async (req: Request, res: Response) => {
       include: {
         fromWallet: true,
         toWallet: true,
+        feeTransaction: true,
       },
     });
 
@@ -100,7 +172,10 @@ export const getTransfer = async (req: Request, res: Response) => {
 
 /**
  * Cria uma nova transferência entre carteiras
- * Atualiza os saldos das carteiras automaticamente
+ * Transferências com data até hoje atualizam os saldos na hora; com data futura
+ * ficam pendentes até a data (executadas pelo job ou confirmadas manualmente)
+ * Com recurrence, gera a série de transferências agendadas (ex.: poupança todo mês)
+ * A tarifa opcional é lançada como despesa da carteira de origem, paga na execução
  */
 export const createTransfer = async (req: Request, res: Response) => {
   try {
@@ -121,60 +196,240 @@ export const createTransfer = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Carteira de destino não encontrada' });
     }
 
-    // Verifica se a carteira de origem tem saldo suficiente
-    if (fromWallet.balance < data.amount) {
-      return res.status(400).json({ error: 'Saldo insuficiente na carteira de origem' });
+    if (data.recurrence?.endDate && data.date && data.recurrence.endDate < data.date) {
+      return res.status(400).json({
+        error: 'Data final da recorrência deve ser posterior à data da transferência',
+      });
     }
 
-    // Cria a transferência e atualiza os saldos
-    const transfer = await prisma.$transaction(async (tx) => {
-      // Debita da carteira de origem
-      await tx.wallet.update({
-        where: { id: data.fromWalletId },
-        data: {
-          balance: {
-            decrement: data.amount,
-          },
-        },
-      });
+    const date = data.date || new Date();
+    const template: TransferTemplate = {
+      amount: data.amount,
+      toAmount: await resolveToAmount(fromWallet, toWallet, data.amount, data.toAmount, date),
+      description: data.description ?? null,
+      fromWalletId: data.fromWalletId,
+      toWalletId: data.toWalletId,
+      fee: data.fee,
+      feeCategoryId: data.feeCategoryId,
+    };
 
-      // Credita na carteira de destino
-      await tx.wallet.update({
-        where: { id: data.toWalletId },
-        data: {
-          balance: {
-            increment: data.amount,
+    // Cria a(s) transferência(s) como pendentes e executa na hora as que já chegaram à data
+    const transfer = await prisma.$transaction(
+      async (tx) => {
+        let scheduled: Transfer[];
+
+        if (data.recurrence) {
+          const rule = await tx.recurrenceRule.create({
+            data: {
+              ...data.recurrence,
+              startDate: date,
+              kind: 'TRANSFER',
+              userId,
+            },
+          });
+          scheduled = await materializeTransferRecurrence(tx, rule, template);
+        } else {
+          scheduled = [await scheduleTransfer(tx, userId, template, date)];
+        }
+
+        // Move os saldos (com a verificação de saldo da origem) e paga a tarifa
+        const now = new Date();
+        for (const item of scheduled) {
+          if (item.date <= now) {
+            await executeTransfer(tx, item);
+          }
+        }
+
+        return tx.transfer.findUniqueOrThrow({
+          where: { id: scheduled[0].id },
+          include: {
+            fromWallet: true,
+            toWallet: true,
+            feeTransaction: true,
           },
-        },
+        });
+      },
+      { timeout: 60000 }
+    );
+
+    return res.status(201).json(transfer);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao criar transferência:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Atualiza uma transferência
+ * Mudanças de valor ou de carteiras são reaplicadas nos saldos de uma vez (a transferência
+ * anterior é desfeita e a nova aplicada), com a mesma verificação de saldo da criação
+ * A tarifa é relançada quando muda o valor dela, a carteira de origem ou a data
+ * Transferências pendentes só mudam os dados; os saldos são movidos na execução
+ */
+export const updateTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const data = updateTransferSchema.parse(req.body);
+
+    const transfer = await prisma.transfer.findFirst({
+      where: { id, userId },
+      include: {
+        invoice: true,
+        feeTransaction: true,
+      },
+    });
+
+    if (!transfer) {
+      return res.status(404).json({ error: 'Transferência não encontrada' });
+    }
+
+    const amount = data.amount ?? transfer.amount;
+    const fromWalletId = data.fromWalletId ?? transfer.fromWalletId;
+    const toWalletId = data.toWalletId ?? transfer.toWalletId;
+    const date = data.date ?? transfer.date;
+    const description = data.description !== undefined ? data.description : transfer.description;
+
+    const fromChanged = fromWalletId !== transfer.fromWalletId;
+    const toChanged = toWalletId !== transfer.toWalletId;
+    const dateChanged = date.getTime() !== transfer.date.getTime();
+
+    if (fromWalletId === toWalletId) {
+      return res.status(400).json({ error: 'Carteira de origem e destino devem ser diferentes' });
+    }
+
+    // O pagamento da fatura precisa continuar batendo com o total da fatura
+    if (
+      transfer.invoice &&
+      (!amount.equals(transfer.amount) || data.toAmount !== undefined || fromChanged || toChanged)
+    ) {
+      return res.status(400).json({
+        error: 'Transferência paga uma fatura; exclua o pagamento para alterar o valor ou as carteiras',
       });
+    }
+
+    const [fromWallet, toWallet] = await Promise.all([
+      prisma.wallet.findFirst({ where: { id: fromWalletId, userId } }),
+      prisma.wallet.findFirst({ where: { id: toWalletId, userId } }),
+    ]);
+
+    if (!fromWallet) {
+      return res.status(404).json({ error: 'Carteira de origem não encontrada' });
+    }
+
+    if (!toWallet) {
+      return res.status(404).json({ error: 'Carteira de destino não encontrada' });
+    }
+
+    // O valor creditado é recalculado quando muda o valor, as carteiras ou o valor de destino
+    const creditedAmount = getCreditedAmount(transfer);
+    const valueChanged = !amount.equals(transfer.amount) || fromChanged || toChanged;
+    const toAmount = data.toAmount !== undefined || valueChanged
+      ? await resolveToAmount(fromWallet, toWallet, amount, data.toAmount, date)
+      : creditedAmount;
+
+    const isCompleted = transfer.status === 'COMPLETED';
+    const currentFee = transfer.feeTransaction?.amount ?? ZERO;
+    const fee = data.fee === undefined ? currentFee : data.fee ?? ZERO;
+
+    // Mesma verificação da criação, descontando o que a transferência já debitou da origem
+    const refund = fromChanged ? ZERO : transfer.amount.plus(currentFee);
+    if (isCompleted && !hasSufficientBalance(fromWallet, amount.plus(fee), refund)) {
+      return res.status(400).json({ error: 'Saldo insuficiente na carteira de origem' });
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Transferências conciliadas com o extrato não podem ser alteradas
+      await assertTransferNotReconciled(tx, transfer);
+
+      // Estorna o lançamento da transferência anterior e lança a nova
+      if (isCompleted) {
+        await postJournalEntries(tx, [
+          ...await buildReversalEntries(tx, [transfer.id]),
+          await buildTransferEntry(tx, {
+            id: transfer.id,
+            userId,
+            date,
+            description,
+            amount,
+            toAmount,
+            fromWalletId,
+            toWalletId,
+          }),
+        ]);
+      }
+
+      let feeTransactionId = transfer.feeTransactionId;
+      const feeChanged = data.fee !== undefined || data.feeCategoryId !== undefined || fromChanged || dateChanged;
+
+      if (feeChanged) {
+        if (transfer.feeTransaction) {
+          await removeTransferFee(tx, transfer.feeTransaction);
+          feeTransactionId = null;
+        }
 
-      // Cria o registro da transferência
-      return tx.transfer.create({
+        if (fee.greaterThan(0)) {
+          // Em transferência pendente a tarifa continua em aberto até a execução
+          const feeTransaction = await createTransferFee(
+            tx,
+            fromWallet,
+            {
+              amount: fee,
+              categoryId: data.feeCategoryId ?? transfer.feeTransaction?.categoryId,
+              date,
+              description,
+            },
+            isCompleted
+          );
+          feeTransactionId = feeTransaction.id;
+        }
+      }
+
+      return tx.transfer.update({
+        where: { id },
         data: {
-          ...data,
-          userId,
-          date: data.date || new Date(),
+          amount,
+          toAmount,
+          description,
+          date,
+          fromWalletId,
+          toWalletId,
+          feeTransactionId,
+          // Ao trocar de carteira, o lado correspondente sai da conciliação em andamento
+          ...(fromChanged && { fromReconciliationId: null }),
+          ...(toChanged && { toReconciliationId: null }),
         },
         include: {
           fromWallet: true,
           toWallet: true,
+          feeTransaction: true,
         },
       });
     });
 
-    return res.status(201).json(transfer);
+    return res.json(updated);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
-    console.error('Erro ao criar transferência:', error);
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao atualizar transferência:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
 
 /**
  * Deleta uma transferência
- * Reverte os saldos das carteiras
+ * Reverte os saldos das carteiras (se já executada), remove a tarifa (se houver)
+ * e reabre a fatura paga por ela, se houver
  */
 export const deleteTransfer = async (req: Request, res: Response) => {
   try {
@@ -183,6 +438,7 @@ export const deleteTransfer = async (req: Request, res: Response) => {
 
     const transfer = await prisma.transfer.findFirst({
       where: { id, userId },
+      include: { feeTransaction: true },
     });
 
     if (!transfer) {
@@ -190,24 +446,24 @@ export const deleteTransfer = async (req: Request, res: Response) => {
     }
 
     await prisma.$transaction(async (tx) => {
-      // Reverte: adiciona de volta na origem
-      await tx.wallet.update({
-        where: { id: transfer.fromWalletId },
-        data: {
-          balance: {
-            increment: transfer.amount,
-          },
-        },
-      });
+      // Transferências conciliadas com o extrato não podem ser excluídas
+      await assertTransferNotReconciled(tx, transfer);
 
-      // Reverte: remove do destino
-      await tx.wallet.update({
-        where: { id: transfer.toWalletId },
-        data: {
-          balance: {
-            decrement: transfer.amount,
-          },
-        },
+      // A tarifa é desfeita junto com a transferência
+      if (transfer.feeTransaction) {
+        await removeTransferFee(tx, transfer.feeTransaction);
+      }
+
+      // Transferências pendentes ainda não moveram os saldos
+      if (transfer.status === 'COMPLETED') {
+        // Estorna o lançamento: devolve à origem e retira do destino
+        await reverseJournalEntries(tx, [transfer.id]);
+      }
+
+      // Se a transferência pagou uma fatura, a fatura volta a ficar em aberto
+      await tx.invoice.updateMany({
+        where: { transferId: id },
+        data: { status: 'OPEN', paidAt: null },
       });
 
       // Deleta a transferência
@@ -218,7 +474,110 @@ export const deleteTransfer = async (req: Request, res: Response) => {
 
     return res.status(204).send();
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao deletar transferência:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
+
+/**
+ * Confirma manualmente uma transferência agendada, executando-a agora
+ * Se a data ainda não chegou, a transferência (e a tarifa) passa a ter a data de hoje
+ */
+export const confirmTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transfer = await prisma.transfer.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transfer) {
+      return res.status(404).json({ error: 'Transferência não encontrada' });
+    }
+
+    const confirmed = await prisma.$transaction(async (tx) => {
+      let pending = transfer;
+      const now = new Date();
+
+      if (transfer.status === 'PENDING' && transfer.date > now) {
+        pending = await tx.transfer.update({
+          where: { id },
+          data: { date: now },
+        });
+
+        if (transfer.feeTransactionId) {
+          const feeTransaction = await tx.transaction.findUniqueOrThrow({
+            where: { id: transfer.feeTransactionId },
+            include: { wallet: true },
+          });
+          await tx.transaction.update({
+            where: { id: feeTransaction.id },
+            data: {
+              dueDate: now,
+              invoiceId: await resolveInvoiceId(tx, feeTransaction.wallet, now),
+            },
+          });
+        }
+      }
+
+      await executeTransfer(tx, pending);
+
+      return tx.transfer.findUniqueOrThrow({
+        where: { id },
+        include: {
+          fromWallet: true,
+          toWallet: true,
+          feeTransaction: true,
+        },
+      });
+    });
+
+    return res.json(confirmed);
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao confirmar transferência:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Desfaz a conciliação de uma transferência nas duas carteiras
+ */
+export const unreconcileTransfer = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const transfer = await prisma.transfer.findFirst({
+      where: { id, userId },
+    });
+
+    if (!transfer) {
+      return res.status(404).json({ error: 'Transferência não encontrada' });
+    }
+
+    if (!transfer.fromReconciliationId && !transfer.toReconciliationId) {
+      return res.status(400).json({ error: 'Transferência não está conciliada' });
+    }
+
+    const updated = await prisma.transfer.update({
+      where: { id },
+      data: { fromReconciliationId: null, toReconciliationId: null },
+      include: {
+        fromWallet: true,
+        toWallet: true,
+      },
+    });
+
+    return res.json(updated);
+  } catch (error) {
+    console.error('Erro ao desfazer conciliação da transferência:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
@@ -5,47 +5,192 @@
 
 import { Request, Response } from 'express';
 import { z } from 'zod';
+import { Wallet } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { ZERO, positiveMoney, sumMoney, toMoney } from '../lib/money';
+import { WALLET_TYPES, getAvailableCredit, getBalanceRuleViolation } from '../lib/wallets';
+import { currencySchema } from '../lib/currencies';
+import { AppError } from '../lib/errors';
+import {
+  adjustWalletBalance,
+  computeWalletBalance,
+  fixWalletBalance,
+  openWalletBalance,
+} from '../services/balance.service';
+import { LEDGER_ADJUSTMENT_KINDS } from '../services/ledger.service';
+import { mergeWallets } from '../services/wallet.service';
+import { getCurrencyConverter } from '../services/exchange-rate.service';
+import {
+  MAX_BALANCE_HISTORY_POINTS,
+  buildPeriods,
+  getBalanceHistory,
+} from '../services/balance-history.service';
 
 // ==================== SCHEMAS DE VALIDAÇÃO ====================
 
+const walletTypeSchema = z.enum(WALLET_TYPES, {
+  errorMap: () => ({
+    message: 'Tipo deve ser CHECKING, SAVINGS, CASH, CREDIT_CARD ou INVESTMENT',
+  }),
+});
+
 const createWalletSchema = z.object({
   name: z.string().min(1, 'Nome é obrigatório'),
   description: z.string().optional(),
-  balance: z.number().default(0),
+  type: walletTypeSchema.default('CHECKING'),
+  currency: currencySchema.optional(), // Padrão: moeda base do usuário
+  openingBalance: z.number().optional(),
+  balance: z.number().optional(), // Obsoleto: nome antigo de openingBalance, aceito por compatibilidade
+  openingDate: z.string().transform((str) => new Date(str)).optional(), // Padrão: agora
+  creditLimit: positiveMoney('Limite deve ser positivo').optional(),
+  closingDay: z.number().int().min(1).max(31, 'Dia de fechamento deve estar entre 1 e 31').optional(),
+  dueDay: z.number().int().min(1).max(31, 'Dia de vencimento deve estar entre 1 e 31').optional(),
   color: z.string().default('#3B82F6'),
   icon: z.string().default('wallet'),
-});
+}).refine((data) => data.openingBalance === undefined || data.balance === undefined, {
+  message: 'Informe apenas openingBalance (balance é o nome antigo do campo)',
+  path: ['balance'],
+}).transform(({ balance, openingBalance, ...data }) => ({
+  ...data,
+  openingBalance: toMoney(openingBalance ?? balance ?? 0),
+}));
 
 const updateWalletSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
+  type: walletTypeSchema.optional(),
+  currency: currencySchema.optional(),
+  creditLimit: positiveMoney('Limite deve ser positivo').optional().nullable(),
+  closingDay: z.number().int().min(1).max(31, 'Dia de fechamento deve estar entre 1 e 31').optional(),
+  dueDay: z.number().int().min(1).max(31, 'Dia de vencimento deve estar entre 1 e 31').optional(),
   color: z.string().optional(),
   icon: z.string().optional(),
   isActive: z.boolean().optional(),
 });
 
+const mergeWalletSchema = z.object({
+  targetWalletId: z.string().min(1, 'Carteira de destino é obrigatória'),
+});
+
+const adjustBalanceSchema = z.object({
+  balance: z.number({ required_error: 'Saldo é obrigatório' }).transform(toMoney),
+  reason: z.string().max(255, 'Motivo deve ter no máximo 255 caracteres').optional(),
+});
+
+const fixBalanceSchema = z.object({
+  reason: z.string().max(255, 'Motivo deve ter no máximo 255 caracteres').optional(),
+});
+
+const balanceHistorySchema = z.object({
+  startDate: z.string({ required_error: 'Data de início é obrigatória' }).transform((str) => new Date(str)),
+  endDate: z.string({ required_error: 'Data de fim é obrigatória' }).transform((str) => new Date(str)),
+  interval: z.enum(['daily', 'weekly', 'monthly'], {
+    errorMap: () => ({ message: 'Intervalo deve ser daily, weekly ou monthly' }),
+  }).default('daily'),
+  walletIds: z.string().optional(),
+})
+  .refine((data) => !isNaN(data.startDate.getTime()) && !isNaN(data.endDate.getTime()), {
+    message: 'Datas inválidas',
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'Data de início deve ser anterior à data de fim',
+  })
+  .refine(
+    (data) => buildPeriods(data.startDate, data.endDate, data.interval).length <= MAX_BALANCE_HISTORY_POINTS,
+    { message: `O período deve ter no máximo ${MAX_BALANCE_HISTORY_POINTS} pontos; use um intervalo maior` }
+  );
+
+// ==================== FUNÇÕES AUXILIARES ====================
+
+/**
+ * Confere as regras do tipo da carteira: limite e dias da fatura só em cartão
+ * de crédito (o limite é obrigatório nele) e saldo dentro da regra do tipo
+ * Retorna a mensagem de erro ou null
+ */
+function validateWalletType(
+  wallet: Pick<Wallet, 'type' | 'balance' | 'creditLimit' | 'closingDay' | 'dueDay'>
+) {
+  if (wallet.type === 'CREDIT_CARD' && !wallet.creditLimit) {
+    return 'Limite é obrigatório para cartão de crédito';
+  }
+
+  if (wallet.type !== 'CREDIT_CARD' && wallet.creditLimit) {
+    return 'Limite só se aplica a cartão de crédito';
+  }
+
+  if (wallet.type !== 'CREDIT_CARD' && (wallet.closingDay || wallet.dueDay)) {
+    return 'Dias de fechamento e vencimento só se aplicam a cartão de crédito';
+  }
+
+  // A fatura precisa dos dois dias (sem eles, o cartão não organiza os lançamentos em faturas)
+  if (!wallet.closingDay !== !wallet.dueDay) {
+    return 'Informe o dia de fechamento e o dia de vencimento da fatura';
+  }
+
+  if (wallet.closingDay && wallet.closingDay === wallet.dueDay) {
+    return 'Dia de vencimento deve ser diferente do dia de fechamento';
+  }
+
+  return getBalanceRuleViolation(wallet);
+}
+
+/**
+ * Adiciona o limite disponível (cartões de crédito) à carteira
+ */
+function withAvailableCredit(wallet: Wallet) {
+  return { ...wallet, availableCredit: getAvailableCredit(wallet) };
+}
+
 // ==================== CONTROLLERS ====================
 
 /**
  * Lista todas as carteiras do usuário
  * Por padrão, lista apenas carteiras ativas
+ * Pode filtrar por tipo (?type=CREDIT_CARD)
+ * Com groupBy=type, agrupa as carteiras por tipo com o total de cada grupo,
+ * convertido para a moeda base pela cotação atual
  */
 export const listWallets = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const { includeInactive = 'false' } = req.query;
+    const { includeInactive = 'false', type, groupBy } = req.query;
 
     const wallets = await prisma.wallet.findMany({
       where: { 
         userId,
         ...(includeInactive !== 'true' && { isActive: true }),
+        ...(type && { type: type as string }),
       },
       orderBy: { createdAt: 'desc' },
     });
 
-    return res.json(wallets);
+    if (groupBy === 'type') {
+      const converter = await getCurrencyConverter(prisma, userId);
+      const now = new Date();
+
+      const groups = WALLET_TYPES.map((walletType) => {
+        const typeWallets = wallets.filter((wallet) => wallet.type === walletType);
+        return {
+          type: walletType,
+          total: sumMoney(
+            typeWallets.map((wallet) => converter.convert(wallet.balance, wallet.currency, now))
+          ),
+          wallets: typeWallets.map(withAvailableCredit),
+        };
+      }).filter((group) => group.wallets.length > 0);
+
+      return res.json({
+        baseCurrency: converter.baseCurrency,
+        total: groups.reduce((total, group) => total.plus(group.total), ZERO),
+        groups,
+      });
+    }
+
+    return res.json(wallets.map(withAvailableCredit));
   } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao listar carteiras:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -70,7 +215,7 @@ export const getWallet = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Carteira não encontrada' });
     }
 
-    return res.json(wallet);
+    return res.json(withAvailableCredit(wallet));
   } catch (error) {
     console.error('Erro ao buscar carteira:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
@@ -79,24 +224,57 @@ export const getWallet = async (req: Request, res: Response) => {
 
 /**
  * Cria uma nova carteira
+ * Sem moeda informada, a carteira usa a moeda base do usuário
+ * O saldo inicial fica registrado como lançamento de abertura na data informada
  */
 export const createWallet = async (req: Request, res: Response) => {
   try {
     const userId = req.userId!;
-    const data = createWalletSchema.parse(req.body);
+    const { openingBalance, openingDate = new Date(), ...data } = createWalletSchema.parse(req.body);
+
+    const violation = validateWalletType({
+      type: data.type,
+      balance: openingBalance,
+      creditLimit: data.creditLimit ?? null,
+      closingDay: data.closingDay ?? null,
+      dueDay: data.dueDay ?? null,
+    });
 
-    const wallet = await prisma.wallet.create({
-      data: {
-        ...data,
-        userId,
-      },
+    if (violation) {
+      return res.status(400).json({ error: violation });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { baseCurrency: true },
     });
 
-    return res.status(201).json(wallet);
+    const wallet = await prisma.$transaction(async (tx) => {
+      const created = await tx.wallet.create({
+        data: {
+          ...data,
+          currency: data.currency ?? user.baseCurrency,
+          userId,
+        },
+      });
+
+      if (openingBalance.isZero()) {
+        return created;
+      }
+
+      await openWalletBalance(tx, created, openingBalance, openingDate);
+
+      return tx.wallet.findUniqueOrThrow({ where: { id: created.id } });
+    });
+
+    return res.status(201).json(withAvailableCredit(wallet));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
     }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Erro ao criar carteira:', error);
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
@@ -104,6 +282,7 @@ export const createWallet = async (req: Request, res: Response) => {
 
 /**
  * Atualiza uma carteira existente
+ * A moeda só pode mudar enquanto a carteira não tem valores lançados
  */
 export const updateWallet = async (req: Request, res: Response) => {
   try {
@@ -120,12 +299,51 @@ export const updateWallet = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Carteira não encontrada' });
     }
 
+    // Ao deixar de ser cartão de crédito, o limite e os dias da fatura são descartados
+    const type = data.type ?? wallet.type;
+    const isCreditCard = type === 'CREDIT_CARD';
+    const creditLimit = isCreditCard
+      ? (data.creditLimit !== undefined ? data.creditLimit : wallet.creditLimit)
+      : data.creditLimit ?? null;
+    const closingDay = data.closingDay ?? (isCreditCard ? wallet.closingDay : null);
+    const dueDay = data.dueDay ?? (isCreditCard ? wallet.dueDay : null);
+
+    const violation = validateWalletType({
+      type,
+      balance: wallet.balance,
+      creditLimit,
+      closingDay,
+      dueDay,
+    });
+
+    if (violation) {
+      return res.status(400).json({ error: violation });
+    }
+
+    // Os valores já lançados estão na moeda atual da carteira, inclusive os pagamentos feitos
+    // por ela para lançamentos de outras carteiras (ex.: faturas) e as partidas do livro-razão
+    if (data.currency && data.currency !== wallet.currency) {
+      const [transactions, transfers, adjustments, payments, postings] = await Promise.all([
+        prisma.transaction.count({ where: { walletId: id } }),
+        prisma.transfer.count({ where: { OR: [{ fromWalletId: id }, { toWalletId: id }] } }),
+        prisma.walletAdjustment.count({ where: { walletId: id, kind: { in: LEDGER_ADJUSTMENT_KINDS } } }),
+        prisma.payment.count({ where: { walletId: id } }),
+        prisma.posting.count({ where: { walletId: id } }),
+      ]);
+
+      if (transactions > 0 || transfers > 0 || adjustments > 0 || payments > 0 || postings > 0) {
+        return res.status(400).json({
+          error: 'Moeda só pode ser alterada em carteiras sem saldo inicial e sem movimentações',
+        });
+      }
+    }
+
     const updatedWallet = await prisma.wallet.update({
       where: { id },
-      data,
+      data: { ...data, creditLimit, closingDay, dueDay },
     });
 
-    return res.json(updatedWallet);
+    return res.json(withAvailableCredit(updatedWallet));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return res.status(400).json({ error: error.errors[0].message });
@@ -155,9 +373,9 @@ export const deleteWallet = async (req: Request, res: Response) => {
     }
 
     // Verifica se o saldo é zero
-    if (wallet.balance !== 0) {
+    if (!wallet.balance.isZero()) {
       return res.status(400).json({ 
-        error: 'Não é possível excluir uma carteira com saldo. Transfira ou ajuste o saldo para R$ 0,00 primeiro.' 
+        error: 'Não é possível excluir uma carteira com saldo. Transfira ou ajuste o saldo para R$ 0,00 ou una a carteira a outra primeiro.' 
       });
     }
 
@@ -174,6 +392,80 @@ export const deleteWallet = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Reativa uma carteira desativada (excluída pelo soft delete ou unida a outra)
+ */
+export const reactivateWallet = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    if (wallet.isActive) {
+      return res.status(400).json({ error: 'Carteira já está ativa' });
+    }
+
+    const reactivated = await prisma.wallet.update({
+      where: { id },
+      data: { isActive: true },
+    });
+
+    return res.json(withAvailableCredit(reactivated));
+  } catch (error) {
+    console.error('Erro ao reativar carteira:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Une a carteira a outra (ex.: ao encerrar uma conta): lançamentos, pagamentos, transferências
+ * e ajustes de saldo passam para a carteira de destino, que fica com a soma dos saldos
+ * Transferências entre as duas carteiras são excluídas e a carteira de origem fica inativa
+ */
+export const mergeWallet = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { targetWalletId } = mergeWalletSchema.parse(req.body);
+
+    const [source, target] = await Promise.all([
+      prisma.wallet.findFirst({ where: { id, userId } }),
+      prisma.wallet.findFirst({ where: { id: targetWalletId, userId } }),
+    ]);
+
+    if (!source) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    if (!target) {
+      return res.status(404).json({ error: 'Carteira de destino não encontrada' });
+    }
+
+    const result = await prisma.$transaction(
+      (tx) => mergeWallets(tx, source, target),
+      { timeout: 60000 }
+    );
+
+    return res.json({ ...result, wallet: withAvailableCredit(result.wallet) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao unir carteiras:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
 /**
  * Busca transações de uma carteira específica
  * Útil para mostrar extrato/resumo da carteira
@@ -226,3 +518,259 @@ export const getWalletTransactions = async (req: Request, res: Response) => {
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 };
+
+/**
+ * Confere o saldo de uma carteira recalculando-o a partir das partidas do livro-razão
+ * (saldo inicial, ajustes, pagamentos e transferências) e informa a diferença para o saldo salvo
+ */
+export const checkWalletBalance = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    const check = await computeWalletBalance(prisma, wallet);
+
+    return res.json({ ...check, isConsistent: check.difference.isZero() });
+  } catch (error) {
+    console.error('Erro ao conferir saldo da carteira:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Ajusta o saldo de uma carteira para o valor informado (ex.: conferido no banco)
+ * A diferença fica registrada como ajuste no histórico do saldo, com data e motivo
+ */
+export const adjustBalance = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { balance, reason } = adjustBalanceSchema.parse(req.body);
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    const adjustment = await prisma.$transaction((tx) => adjustWalletBalance(tx, wallet, balance, reason));
+
+    return res.status(201).json(adjustment);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao ajustar saldo da carteira:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Corrige o saldo salvo de uma carteira para o saldo das partidas do livro-razão
+ * A correção fica registrada como ajuste de saldo (auditoria)
+ */
+export const fixBalance = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { reason } = fixBalanceSchema.parse(req.body ?? {});
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    const adjustment = await prisma.$transaction((tx) => fixWalletBalance(tx, wallet, reason));
+
+    return res.json({ fixed: adjustment !== null, adjustment });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao corrigir saldo da carteira:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Confere o saldo de todas as carteiras do usuário (inclusive inativas)
+ */
+export const checkAllBalances = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+
+    const wallets = await prisma.wallet.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const checks = [];
+    for (const wallet of wallets) {
+      const check = await computeWalletBalance(prisma, wallet);
+      checks.push({ ...check, isConsistent: check.difference.isZero() });
+    }
+
+    return res.json({
+      total: checks.length,
+      inconsistent: checks.filter((check) => !check.isConsistent).length,
+      wallets: checks,
+    });
+  } catch (error) {
+    console.error('Erro ao conferir saldos:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Corrige o saldo de todas as carteiras do usuário que estiverem divergentes
+ */
+export const fixAllBalances = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { reason } = fixBalanceSchema.parse(req.body ?? {});
+
+    const adjustments = await prisma.$transaction(async (tx) => {
+      const wallets = await tx.wallet.findMany({ where: { userId } });
+      const created = [];
+
+      for (const wallet of wallets) {
+        const adjustment = await fixWalletBalance(tx, wallet, reason);
+        if (adjustment) {
+          created.push(adjustment);
+        }
+      }
+
+      return created;
+    });
+
+    return res.json({ fixed: adjustments.length, adjustments });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao corrigir saldos:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Lista os ajustes de saldo de uma carteira: saldo inicial, ajustes e correções
+ * Pode filtrar por tipo (?kind=OPENING, ADJUSTMENT ou CORRECTION)
+ */
+export const listAdjustments = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { kind } = req.query;
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    const adjustments = await prisma.walletAdjustment.findMany({
+      where: {
+        walletId: id,
+        userId,
+        ...(kind && { kind: kind as string }),
+      },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return res.json(adjustments);
+  } catch (error) {
+    console.error('Erro ao listar ajustes de saldo:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Evolução do saldo das carteiras (diária, semanal ou mensal) no período
+ * Cada ponto traz o saldo ao fim do período, reconstruído a partir das partidas
+ * do livro-razão; por padrão considera todas as carteiras ativas
+ */
+export const getAllBalanceHistory = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { startDate, endDate, interval, walletIds } = balanceHistorySchema.parse(req.query);
+
+    const wallets = await prisma.wallet.findMany({
+      where: {
+        userId,
+        ...(walletIds ? { id: { in: walletIds.split(',') } } : { isActive: true }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const converter = await getCurrencyConverter(prisma, userId);
+    const history = await getBalanceHistory(wallets, startDate, endDate, interval, converter);
+
+    return res.json(history);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Erro ao buscar evolução dos saldos:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
+
+/**
+ * Evolução do saldo de uma carteira no período
+ */
+export const getWalletBalanceHistory = async (req: Request, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { id } = req.params;
+    const { startDate, endDate, interval } = balanceHistorySchema.parse(req.query);
+
+    const wallet = await prisma.wallet.findFirst({
+      where: { id, userId },
+    });
+
+    if (!wallet) {
+      return res.status(404).json({ error: 'Carteira não encontrada' });
+    }
+
+    // Saldo na moeda da própria carteira (sem conversão)
+    const history = await getBalanceHistory([wallet], startDate, endDate, interval);
+
+    return res.json({
+      interval: history.interval,
+      startDate: history.startDate,
+      endDate: history.endDate,
+      walletId: wallet.id,
+      name: wallet.name,
+      currency: wallet.currency,
+      points: history.wallets[0]?.points ?? [],
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0].message });
+    }
+    console.error('Erro ao buscar evolução do saldo da carteira:', error);
+    return res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+};
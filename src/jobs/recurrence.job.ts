@@ -0,0 +1,56 @@
+/**
+ * Job de Recorrência
+ * Mantém as séries recorrentes geradas até o horizonte móvel conforme o tempo passa
+ * e executa as transferências agendadas que chegaram à data
+ */
+
+import { extendActiveRecurrences } from '../services/recurrence.service';
+import { executeDueTransfers } from '../services/transfer.service';
+
+// Intervalo entre execuções (padrão: a cada 6 horas)
+const JOB_INTERVAL_MS =
+  parseInt(process.env.RECURRENCE_JOB_INTERVAL_HOURS || '6') * 60 * 60 * 1000;
+
+let running = false;
+
+/**
+ * Executa uma rodada de extensão das séries e de execução das transferências agendadas
+ * Ignora a execução se a anterior ainda não terminou
+ */
+export const runRecurrenceJob = async () => {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    const result = await extendActiveRecurrences();
+    if (result.created > 0) {
+      console.log(`🔁 Recorrências: ${result.created} ocorrências geradas em ${result.rules} séries`);
+    }
+    if (result.failed > 0) {
+      console.warn(`🔁 Recorrências: ${result.failed} séries não puderam ser estendidas`);
+    }
+  } catch (error) {
+    console.error('Erro ao estender recorrências:', error);
+  }
+
+  try {
+    const result = await executeDueTransfers();
+    if (result.executed > 0 || result.failed > 0) {
+      console.log(`💸 Transferências agendadas: ${result.executed} executadas, ${result.failed} pendentes por recusa`);
+    }
+  } catch (error) {
+    console.error('Erro ao executar transferências agendadas:', error);
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Agenda o job: executa na inicialização e depois periodicamente
+ */
+export const startRecurrenceJob = () => {
+  runRecurrenceJob();
+  setInterval(runRecurrenceJob, JOB_INTERVAL_MS);
+};
@@ -0,0 +1,122 @@
+/**
+ * Hierarquia de Categorias
+ * Árvore de categorias e subcategorias e totais acumulados das subcategorias nas categorias pai
+ */
+
+import { Prisma } from '@prisma/client';
+import { ZERO } from './money';
+
+interface CategoryNode {
+  id: string;
+  parentId: string | null;
+}
+
+export type CategoryTree<C extends CategoryNode> = C & { children: CategoryTree<C>[] };
+
+type Totals<K extends string> = Record<K, Prisma.Decimal> & { count: number };
+
+export interface CategoryTotals<K extends string> {
+  direct: Totals<K>; // Linhas lançadas na própria categoria
+  rolledUp: Totals<K>; // Linhas da categoria e de todas as subcategorias
+}
+
+/**
+ * Monta a árvore de categorias (as filhas ficam em children, na ordem recebida)
+ * Categorias cuja categoria pai não está na lista ficam na raiz
+ */
+export function buildCategoryTree<C extends CategoryNode>(categories: C[]): CategoryTree<C>[] {
+  const nodes = new Map(categories.map((category) => [category.id, { ...category, children: [] as CategoryTree<C>[] }]));
+  const roots: CategoryTree<C>[] = [];
+
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Ids da categoria e das suas categorias pai, da própria categoria até a raiz
+ */
+function walkCategoryPath(categoryId: string, parents: Map<string, string | null>): string[] {
+  const path: string[] = [];
+  let current: string | null | undefined = categoryId;
+
+  // A verificação de repetição protege contra ciclos em dados inconsistentes
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = parents.get(current);
+  }
+
+  return path;
+}
+
+/**
+ * Ids da categoria e de todas as suas subcategorias (em qualquer nível)
+ */
+export function getDescendantIds(categoryIds: string[], categories: CategoryNode[]): string[] {
+  const result = new Set(categoryIds);
+  let added = true;
+
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && result.has(category.parentId) && !result.has(category.id)) {
+        result.add(category.id);
+        added = true;
+      }
+    }
+  }
+
+  return Array.from(result);
+}
+
+/**
+ * Soma as linhas por categoria: o total direto (da própria categoria) e o total acumulado,
+ * em que cada linha conta também em todas as categorias pai
+ */
+export function sumByCategoryTree<K extends string>(
+  lines: { categoryId: string; values: Record<K, Prisma.Decimal> }[],
+  keys: readonly K[],
+  categories: CategoryNode[]
+): Map<string, CategoryTotals<K>> {
+  const empty = () => {
+    const totals = { count: 0 } as Totals<K>;
+    for (const key of keys) {
+      (totals as Record<K, Prisma.Decimal>)[key] = ZERO;
+    }
+    return totals;
+  };
+
+  const add = (totals: Totals<K>, values: Record<K, Prisma.Decimal>) => {
+    for (const key of keys) {
+      (totals as Record<K, Prisma.Decimal>)[key] = totals[key].plus(values[key]);
+    }
+    totals.count += 1;
+  };
+
+  const parents = new Map(categories.map((category) => [category.id, category.parentId]));
+  const result = new Map<string, CategoryTotals<K>>();
+  const get = (categoryId: string) => {
+    if (!result.has(categoryId)) {
+      result.set(categoryId, { direct: empty(), rolledUp: empty() });
+    }
+    return result.get(categoryId)!;
+  };
+
+  for (const line of lines) {
+    add(get(line.categoryId).direct, line.values);
+
+    for (const categoryId of walkCategoryPath(line.categoryId, parents)) {
+      add(get(categoryId).rolledUp, line.values);
+    }
+  }
+
+  return result;
+}
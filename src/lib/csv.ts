@@ -0,0 +1,149 @@
+/**
+ * Leitura de Arquivos CSV
+ * Separa linhas e colunas (com aspas) e interpreta números e datas
+ * nos formatos usados em planilhas e exportações brasileiras
+ */
+
+import { Prisma } from '@prisma/client';
+
+export type DecimalSeparator = ',' | '.';
+
+// Formatos de data aceitos no mapeamento das colunas
+export const CSV_DATE_FORMATS = ['dd/MM/yyyy', 'dd/MM/yy', 'dd-MM-yyyy', 'yyyy-MM-dd', 'MM/dd/yyyy'] as const;
+
+export type CsvDateFormat = (typeof CSV_DATE_FORMATS)[number];
+
+/**
+ * Converte o arquivo em texto
+ * Planilhas salvas pelo Excel em português costumam vir em Windows-1252; se o
+ * conteúdo não for UTF-8 válido, é lido como latin1
+ */
+export function decodeCsv(buffer: Buffer): string {
+  const text = buffer.toString('utf8');
+  return text.includes('\uFFFD') ? buffer.toString('latin1') : text;
+}
+
+/**
+ * Separa o conteúdo em linhas e colunas
+ * Campos entre aspas podem conter o separador, quebras de linha e aspas duplicadas ("")
+ * Linhas totalmente vazias são descartadas
+ */
+export function parseCsv(content: string, delimiter: string): string[][] {
+  const text = content.replace(/^\uFEFF/, ''); // Remove o BOM de arquivos salvos pelo Excel
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Interpreta um valor monetário: "1.234,56", "-1.234,56", "R$ 1.234,56" e "(1.234,56)"
+ * (negativo entre parênteses) com vírgula decimal, ou "1,234.56" com ponto decimal
+ * decimalPlaces permite mais casas (ex.: cotações); valores monetários usam duas
+ * Retorna null se o valor não for um número
+ */
+export function parseCsvNumber(
+  value: string,
+  decimalSeparator: DecimalSeparator,
+  decimalPlaces = 2
+): Prisma.Decimal | null {
+  let text = value.replace(/R\$/i, '').replace(/\s/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+  text = text.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+
+  const number = new Prisma.Decimal(text).toDecimalPlaces(decimalPlaces);
+  return negative ? number.negated() : number;
+}
+
+/**
+ * Interpreta uma data no formato informado, em UTC
+ * Retorna null se o valor não corresponder ao formato ou não for uma data válida
+ */
+export function parseCsvDate(value: string, format: CsvDateFormat): Date | null {
+  const parts = value.trim().match(/^(\d{1,4})[/-](\d{1,2})[/-](\d{1,4})$/);
+
+  if (!parts) {
+    return null;
+  }
+
+  const [, first, second, third] = parts.map(Number);
+  let day: number;
+  let month: number;
+  let year: number;
+
+  switch (format) {
+    case 'yyyy-MM-dd':
+      [year, month, day] = [first, second, third];
+      break;
+    case 'MM/dd/yyyy':
+      [month, day, year] = [first, second, third];
+      break;
+    case 'dd/MM/yy':
+      [day, month, year] = [first, second, third < 100 ? 2000 + third : third];
+      break;
+    default:
+      [day, month, year] = [first, second, third];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // Descarta datas inexistentes (ex.: 31/02), que o Date avançaria para o mês seguinte
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
@@ -0,0 +1,24 @@
+/**
+ * Moedas
+ * Códigos de moeda das carteiras e valores de transferências entre moedas diferentes
+ */
+
+import { Transfer } from '@prisma/client';
+import { z } from 'zod';
+
+// Moeda base dos usuários e moeda das carteiras quando nenhuma é informada
+export const DEFAULT_CURRENCY = 'BRL';
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Moeda deve ser um código ISO de 3 letras (ex.: USD)');
+
+/**
+ * Valor creditado na carteira de destino, na moeda dela
+ * Transferências entre carteiras da mesma moeda creditam o próprio valor
+ */
+export function getCreditedAmount(transfer: Pick<Transfer, 'amount' | 'toAmount'>) {
+  return transfer.toAmount ?? transfer.amount;
+}
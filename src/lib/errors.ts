@@ -0,0 +1,11 @@
+/**
+ * Erros da Aplicação
+ * Erros de regra de negócio lançados pelos serviços, com o status HTTP da resposta
+ */
+
+export class AppError extends Error {
+  constructor(message: string, public readonly statusCode = 400) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
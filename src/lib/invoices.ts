@@ -0,0 +1,56 @@
+/**
+ * Faturas de Cartão de Crédito
+ * Calcula a fatura (mês de referência, fechamento e vencimento) de uma compra
+ * a partir dos dias de fechamento e vencimento do cartão
+ */
+
+export interface InvoicePeriod {
+  month: number; // Mês de referência (1-12), o mês do vencimento
+  year: number;
+  closingDate: Date;
+  dueDate: Date;
+}
+
+/**
+ * Data no dia informado do mês, ajustada para o último dia em meses mais curtos
+ * As datas são tratadas em UTC, como nas recorrências
+ */
+function dayInMonth(year: number, month: number, day: number) {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, daysInMonth)));
+}
+
+/**
+ * Calcula a fatura de uma compra
+ * Compras até o dia de fechamento entram na fatura que fecha no mesmo mês; depois dele,
+ * na do mês seguinte. O vencimento é no mês do fechamento se o dia de vencimento for
+ * posterior ao de fechamento, senão no mês seguinte
+ * offset avança N faturas (usado para as parcelas de uma compra parcelada)
+ */
+export function getInvoicePeriod(
+  closingDay: number,
+  dueDay: number,
+  purchaseDate: Date,
+  offset = 0
+): InvoicePeriod {
+  const year = purchaseDate.getUTCFullYear();
+  let closingMonth = purchaseDate.getUTCMonth() + offset;
+
+  if (purchaseDate.getUTCDate() > dayInMonth(year, purchaseDate.getUTCMonth(), closingDay).getUTCDate()) {
+    closingMonth += 1;
+  }
+
+  const closingDate = dayInMonth(year, closingMonth, closingDay);
+  const dueDate = dayInMonth(
+    closingDate.getUTCFullYear(),
+    closingDate.getUTCMonth() + (dueDay > closingDay ? 0 : 1),
+    dueDay
+  );
+
+  return {
+    month: dueDate.getUTCMonth() + 1,
+    year: dueDate.getUTCFullYear(),
+    closingDate,
+    dueDate,
+  };
+}
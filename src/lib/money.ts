@@ -0,0 +1,87 @@
+/**
+ * Valores Monetários
+ * Aritmética exata com Decimal (duas casas) para lançamentos, saldos e transferências
+ */
+
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+export const ZERO = new Prisma.Decimal(0);
+
+/**
+ * Converte um valor para Decimal arredondado em centavos (meio para cima)
+ */
+export function toMoney(value: Prisma.Decimal.Value): Prisma.Decimal {
+  return new Prisma.Decimal(value).toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+}
+
+/**
+ * Soma uma lista de valores sem perda de precisão
+ */
+export function sumMoney(values: Prisma.Decimal.Value[]): Prisma.Decimal {
+  return values.reduce<Prisma.Decimal>((sum, value) => sum.plus(value), ZERO);
+}
+
+/**
+ * Divide um valor em N partes iguais em centavos
+ * A sobra da divisão fica na primeira parte, assim a soma é sempre igual ao total
+ * Ex: R$ 100,00 em 3 partes = 33,34 + 33,33 + 33,33
+ */
+export function splitMoney(total: Prisma.Decimal.Value, parts: number): Prisma.Decimal[] {
+  const totalCents = toMoney(total).times(100);
+  const baseCents = totalCents.dividedToIntegerBy(parts);
+  const remainderCents = totalCents.minus(baseCents.times(parts));
+
+  return Array.from({ length: parts }, (_, i) =>
+    (i === 0 ? baseCents.plus(remainderCents) : baseCents).dividedBy(100)
+  );
+}
+
+/**
+ * Distribui um valor proporcionalmente aos pesos informados, em centavos
+ * A sobra do arredondamento fica na primeira parte, assim a soma é sempre igual ao total
+ */
+export function allocateMoney(
+  total: Prisma.Decimal.Value,
+  weights: Prisma.Decimal.Value[]
+): Prisma.Decimal[] {
+  const totalWeight = sumMoney(weights);
+
+  if (weights.length === 0 || totalWeight.isZero()) {
+    return weights.map(() => ZERO);
+  }
+
+  const parts = weights.map((weight) =>
+    toMoney(new Prisma.Decimal(total).times(weight).dividedBy(totalWeight))
+  );
+  parts[0] = toMoney(total).minus(sumMoney(parts.slice(1)));
+
+  return parts;
+}
+
+/**
+ * Valor com sinal conforme o tipo do lançamento (receita soma, despesa subtrai)
+ */
+export function signedAmount(type: string, amount: Prisma.Decimal.Value): Prisma.Decimal {
+  const value = new Prisma.Decimal(amount);
+  return type === 'INCOME' ? value : value.negated();
+}
+
+/**
+ * Schema Zod para valores monetários positivos informados como número na API
+ */
+export function positiveMoney(message: string) {
+  return z
+    .number()
+    .positive(message)
+    .transform(toMoney)
+    .refine((value) => value.greaterThan(0), message);
+}
+
+/**
+ * Replacer de JSON do Express: serializa Decimal como número na resposta
+ * Sem ele, o Decimal viraria string ("33.34") e quebraria os clientes da API
+ */
+export function moneyJsonReplacer(this: Record<string, unknown>, key: string, value: unknown) {
+  return Prisma.Decimal.isDecimal(this[key]) ? Number(value) : value;
+}
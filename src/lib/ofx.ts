@@ -0,0 +1,133 @@
+/**
+ * Leitura de Arquivos OFX
+ * Extrai os lançamentos (STMTTRN) de extratos OFX 1.x (SGML, sem tags de fechamento)
+ * e 2.x (XML), exportados por bancos e cartões
+ */
+
+import { Prisma } from '@prisma/client';
+import { AppError } from './errors';
+
+export interface OfxEntry {
+  fitId: string;
+  type: 'INCOME' | 'EXPENSE'; // Créditos viram receitas e débitos viram despesas
+  trnType: string | null; // Tipo informado pelo banco (CREDIT, DEBIT, PAYMENT, XFER...)
+  date: Date;
+  amount: Prisma.Decimal; // Sempre positivo
+  description: string;
+  memo: string | null;
+}
+
+export interface OfxStatement {
+  accountId: string | null;
+  currency: string | null;
+  entries: OfxEntry[];
+}
+
+/**
+ * Converte o arquivo em texto respeitando o charset do cabeçalho
+ * Bancos brasileiros costumam exportar em Windows-1252 (CHARSET:1252)
+ */
+export function decodeOfx(buffer: Buffer): string {
+  const header = buffer.subarray(0, 512).toString('ascii');
+  const isLatin = /CHARSET:\s*(1252|ISO-8859-1)|encoding="(windows-1252|ISO-8859-1)"/i.test(header);
+
+  return buffer.toString(isLatin ? 'latin1' : 'utf8');
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Lê o valor de uma tag (até a próxima tag ou quebra de linha, como no SGML)
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1].trim()) : '';
+
+  return value || null;
+}
+
+/**
+ * Datas OFX: AAAAMMDD[HHMMSS[.XXX]][[-3:BRT]]
+ * Só o dia é considerado, em UTC, como as demais datas de lançamentos
+ */
+function parseOfxDate(value: string | null): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+
+  if (!match) {
+    return null;
+  }
+
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+/**
+ * Valores com vírgula decimal aparecem em alguns bancos (ex.: -150,00)
+ */
+function parseOfxAmount(value: string | null): Prisma.Decimal | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return new Prisma.Decimal(value.replace(',', '.')).toDecimalPlaces(2);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lê o extrato e seus lançamentos
+ * Lançamentos com valor zero são ignorados; lançamentos sem FITID, data ou valor
+ * tornam o arquivo inválido, já que não seria possível evitar duplicidade
+ */
+export function parseOfx(content: string): OfxStatement {
+  if (!/<OFX>/i.test(content)) {
+    throw new AppError('Arquivo OFX inválido');
+  }
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi) ?? [];
+  const entries: OfxEntry[] = [];
+
+  for (const block of blocks) {
+    const fitId = readTag(block, 'FITID');
+    const date = parseOfxDate(readTag(block, 'DTPOSTED'));
+    const amount = parseOfxAmount(readTag(block, 'TRNAMT'));
+
+    if (!fitId || !date || !amount) {
+      throw new AppError(
+        `Lançamento inválido no arquivo OFX${fitId ? ` (FITID ${fitId})` : ''}: FITID, data e valor são obrigatórios`
+      );
+    }
+
+    if (amount.isZero()) {
+      continue;
+    }
+
+    const trnType = readTag(block, 'TRNTYPE');
+    const name = readTag(block, 'NAME');
+    const memo = readTag(block, 'MEMO');
+
+    entries.push({
+      fitId,
+      type: amount.isNegative() ? 'EXPENSE' : 'INCOME',
+      trnType: trnType?.toUpperCase() ?? null,
+      date,
+      amount: amount.abs(),
+      description: name ?? memo ?? trnType ?? 'Lançamento importado',
+      memo: name && memo && memo !== name ? memo : null,
+    });
+  }
+
+  return {
+    accountId: readTag(content, 'ACCTID'),
+    currency: readTag(content, 'CURDEF'),
+    entries,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Regras de Recorrência
+ * Calcula as datas de ocorrência de lançamentos recorrentes
+ * (a cada N dias/semanas/meses/anos, dia fixo do mês ou último dia do mês)
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRuleOptions {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  dayOfMonth?: number | null;
+  lastDayOfMonth?: boolean;
+  startDate: Date;
+  endDate?: Date | null;
+  count?: number | null;
+}
+
+// Limite de segurança para não gerar lançamentos infinitos
+export const MAX_RECURRENCE_OCCURRENCES = 1000;
+
+// Quantos meses à frente os lançamentos recorrentes ficam gerados (horizonte móvel)
+export const RECURRENCE_HORIZON_MONTHS = parseInt(process.env.RECURRENCE_HORIZON_MONTHS || '12');
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Soma meses a uma data mantendo o dia escolhido
+ * Dias que não existem no mês (ex: 31 em fevereiro) caem no último dia do mês
+ * As datas são tratadas em UTC, já que chegam da API como "YYYY-MM-DD"
+ */
+function addMonths(
+  startDate: Date,
+  months: number,
+  dayOfMonth: number,
+  lastDayOfMonth: boolean
+): Date {
+  const year = startDate.getUTCFullYear();
+  const month = startDate.getUTCMonth() + months;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const day = lastDayOfMonth ? daysInMonth : Math.min(dayOfMonth, daysInMonth);
+
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      day,
+      startDate.getUTCHours(),
+      startDate.getUTCMinutes(),
+      startDate.getUTCSeconds(),
+      startDate.getUTCMilliseconds()
+    )
+  );
+}
+
+/**
+ * Calcula a data da N-ésima ocorrência (começando em 0) a partir da data inicial
+ * O cálculo é sempre feito a partir do início para não acumular desvios
+ */
+export function getOccurrenceDate(rule: RecurrenceRuleOptions, index: number): Date {
+  const step = index * rule.interval;
+  const dayOfMonth = rule.dayOfMonth ?? rule.startDate.getUTCDate();
+  const lastDayOfMonth = rule.lastDayOfMonth ?? false;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return new Date(rule.startDate.getTime() + step * DAY_IN_MS);
+    case 'WEEKLY':
+      return new Date(rule.startDate.getTime() + step * 7 * DAY_IN_MS);
+    case 'MONTHLY':
+      return addMonths(rule.startDate, step, dayOfMonth, lastDayOfMonth);
+    case 'YEARLY':
+      return addMonths(rule.startDate, step * 12, dayOfMonth, lastDayOfMonth);
+  }
+}
+
+interface GenerateOccurrencesOptions {
+  until?: Date; // Data limite (inclusive)
+  after?: Date; // Ignora ocorrências até esta data (já geradas), mas as conta no limite
+}
+
+/**
+ * Gera as datas de ocorrência da regra
+ * Para quando atinge a data final, o número de ocorrências ou a data limite informada
+ */
+export function generateOccurrences(
+  rule: RecurrenceRuleOptions,
+  { until, after }: GenerateOccurrencesOptions = {}
+): Date[] {
+  const dates: Date[] = [];
+  let total = 0;
+
+  for (let index = 0; dates.length < MAX_RECURRENCE_OCCURRENCES; index++) {
+    if (rule.count && total >= rule.count) {
+      break;
+    }
+
+    const date = getOccurrenceDate(rule, index);
+
+    // Com dia fixo do mês, a primeira ocorrência calculada pode cair antes do início
+    if (date < rule.startDate) {
+      continue;
+    }
+
+    if ((rule.endDate && date > rule.endDate) || (until && date > until)) {
+      break;
+    }
+
+    total++;
+
+    if (after && date <= after) {
+      continue;
+    }
+
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+/**
+ * Indica se a regra já teve todas as ocorrências geradas até a data informada
+ * Regras sem data final nem número de ocorrências nunca terminam
+ */
+export function isRecurrenceComplete(rule: RecurrenceRuleOptions, lastGeneratedDate: Date): boolean {
+  if (!rule.endDate && !rule.count) {
+    return false;
+  }
+
+  return generateOccurrences(rule, { after: lastGeneratedDate }).length === 0;
+}
+
+/**
+ * Data limite do horizonte móvel de geração de lançamentos recorrentes
+ */
+export function getRecurrenceHorizon(from: Date = new Date()): Date {
+  const horizon = new Date(from);
+  horizon.setUTCMonth(horizon.getUTCMonth() + RECURRENCE_HORIZON_MONTHS);
+  return horizon;
+}
@@ -0,0 +1,53 @@
+/**
+ * Divisões de Lançamentos
+ * Quebra um lançamento nas linhas por categoria usadas nas estatísticas e relatórios
+ */
+
+import { Prisma } from '@prisma/client';
+import { allocateMoney } from './money';
+
+interface SplitLike<C> {
+  amount: Prisma.Decimal;
+  category: C;
+}
+
+interface TransactionLike<C> {
+  amount: Prisma.Decimal;
+  paidAmount: Prisma.Decimal;
+  category: C;
+  splits?: SplitLike<C>[];
+}
+
+export interface CategoryLine<C> {
+  category: C;
+  amount: Prisma.Decimal;
+  paidAmount: Prisma.Decimal;
+}
+
+/**
+ * Retorna as linhas por categoria do lançamento
+ * Sem divisões, o lançamento inteiro fica na sua categoria
+ * Com divisões, o valor pago é distribuído proporcionalmente entre as linhas
+ */
+export function getCategoryLines<C>(transaction: TransactionLike<C>): CategoryLine<C>[] {
+  if (!transaction.splits || transaction.splits.length === 0) {
+    return [
+      {
+        category: transaction.category,
+        amount: transaction.amount,
+        paidAmount: transaction.paidAmount,
+      },
+    ];
+  }
+
+  const paidShares = allocateMoney(
+    transaction.paidAmount,
+    transaction.splits.map((split) => split.amount)
+  );
+
+  return transaction.splits.map((split, i) => ({
+    category: split.category,
+    amount: split.amount,
+    paidAmount: paidShares[i],
+  }));
+}
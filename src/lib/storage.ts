@@ -0,0 +1,58 @@
+/**
+ * Armazenamento de Arquivos
+ * Interface usada pelos anexos para gravar, ler e apagar arquivos
+ * A implementação padrão grava em um diretório local (UPLOAD_DIR)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+export interface StorageProvider {
+  save(key: string, content: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Armazenamento em disco local
+ * As chaves são caminhos relativos ao diretório base (ex: "<userId>/<uuid>")
+ */
+export class LocalStorageProvider implements StorageProvider {
+  constructor(private readonly baseDir: string) {}
+
+  /**
+   * Resolve o caminho do arquivo impedindo chaves que saiam do diretório base
+   */
+  private resolve(key: string) {
+    const base = path.resolve(this.baseDir);
+    const filePath = path.resolve(base, key);
+
+    if (!filePath.startsWith(base + path.sep)) {
+      throw new Error(`Chave de armazenamento inválida: ${key}`);
+    }
+
+    return filePath;
+  }
+
+  async save(key: string, content: Buffer) {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+  }
+
+  async read(key: string) {
+    const filePath = this.resolve(key);
+    // Garante que o arquivo existe antes de abrir o stream
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
+
+export const storage: StorageProvider = new LocalStorageProvider(UPLOAD_DIR);
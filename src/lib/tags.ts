@@ -0,0 +1,39 @@
+/**
+ * Filtro de Tags
+ * Monta o filtro de lançamentos por tags usado nas listagens e relatórios
+ */
+
+import { Prisma } from '@prisma/client';
+
+export type TagFilterMode = 'any' | 'all';
+
+/**
+ * Lê a lista de tags da query (separadas por vírgula)
+ */
+export function parseTagIds(param: unknown): string[] {
+  if (typeof param !== 'string') {
+    return [];
+  }
+
+  return param.split(',').map((id) => id.trim()).filter(Boolean);
+}
+
+/**
+ * Filtro por tags:
+ * - any: lançamentos com pelo menos uma das tags
+ * - all: lançamentos com todas as tags
+ */
+export function buildTagFilter(
+  tagIds: string[],
+  mode: TagFilterMode = 'any'
+): Prisma.TransactionWhereInput {
+  if (tagIds.length === 0) {
+    return {};
+  }
+
+  if (mode === 'all') {
+    return { AND: tagIds.map((id) => ({ tags: { some: { id } } })) };
+  }
+
+  return { tags: { some: { id: { in: tagIds } } } };
+}
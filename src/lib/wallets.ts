@@ -0,0 +1,52 @@
+/**
+ * Tipos de Carteira
+ * Regras de saldo de cada tipo de carteira
+ */
+
+import { Prisma } from '@prisma/client';
+
+export const WALLET_TYPES = ['CHECKING', 'SAVINGS', 'CASH', 'CREDIT_CARD', 'INVESTMENT'] as const;
+
+export type WalletType = (typeof WALLET_TYPES)[number];
+
+// Tipos cujo saldo não entra no "disponível para gastar"
+export const NON_SPENDABLE_WALLET_TYPES: WalletType[] = ['SAVINGS'];
+
+interface WalletBalanceState {
+  type: string;
+  balance: Prisma.Decimal;
+  creditLimit: Prisma.Decimal | null;
+}
+
+/**
+ * Confere o saldo da carteira contra as regras do seu tipo
+ * - CASH: não pode ficar negativo
+ * - CREDIT_CARD: o saldo (negativo = fatura) não pode passar do limite
+ * Retorna a mensagem de erro ou null se o saldo é válido
+ */
+export function getBalanceRuleViolation(wallet: WalletBalanceState): string | null {
+  if (wallet.type === 'CASH' && wallet.balance.lessThan(0)) {
+    return 'Saldo insuficiente: carteira em dinheiro não pode ficar negativa';
+  }
+
+  if (
+    wallet.type === 'CREDIT_CARD' &&
+    wallet.creditLimit &&
+    wallet.balance.negated().greaterThan(wallet.creditLimit)
+  ) {
+    return 'Limite do cartão de crédito excedido';
+  }
+
+  return null;
+}
+
+/**
+ * Limite disponível do cartão de crédito (limite + saldo, já que o saldo usado é negativo)
+ */
+export function getAvailableCredit(wallet: WalletBalanceState) {
+  if (wallet.type !== 'CREDIT_CARD' || !wallet.creditLimit) {
+    return null;
+  }
+
+  return wallet.creditLimit.plus(wallet.balance);
+}
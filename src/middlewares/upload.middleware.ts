@@ -0,0 +1,104 @@
+/**
+ * Middleware de Upload
+ * Recebe arquivos multipart em memória, com limite de tamanho e tipos permitidos
+ * (anexos de lançamentos e extratos bancários para importação)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import path from 'path';
+
+// Tamanho máximo por arquivo (em MB)
+export const ATTACHMENT_MAX_SIZE_MB = parseInt(process.env.ATTACHMENT_MAX_SIZE_MB || '10');
+
+// Boletos e notas (PDF/XML) e fotos de comprovantes
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'application/xml',
+  'text/xml',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/heic',
+];
+
+// Extratos bancários chegam com tipos genéricos (application/octet-stream, text/plain),
+// por isso são aceitos pela extensão do arquivo
+export const STATEMENT_MAX_SIZE_MB = parseInt(process.env.STATEMENT_MAX_SIZE_MB || '5');
+
+export const ALLOWED_STATEMENT_EXTENSIONS = ['.ofx', '.csv'];
+
+class UnsupportedFileTypeError extends Error {
+  constructor(fileType: string) {
+    super(`Tipo de arquivo não permitido: ${fileType}`);
+    this.name = 'UnsupportedFileTypeError';
+  }
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: ATTACHMENT_MAX_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+      return callback(new UnsupportedFileTypeError(file.mimetype));
+    }
+    return callback(null, true);
+  },
+});
+
+const statementUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: STATEMENT_MAX_SIZE_MB * 1024 * 1024,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!ALLOWED_STATEMENT_EXTENSIONS.includes(extension)) {
+      return callback(new UnsupportedFileTypeError(extension || file.mimetype));
+    }
+    return callback(null, true);
+  },
+});
+
+/**
+ * Recebe um único arquivo no campo "file" com o multer informado
+ * Erros de upload (tamanho, tipo, campo inesperado) viram respostas 400
+ */
+function singleFile(uploader: multer.Multer, maxSizeMb: number) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    uploader.single('file')(req, res, (error: unknown) => {
+      if (!error) {
+        return next();
+      }
+
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          return res.status(400).json({
+            error: `Arquivo excede o tamanho máximo de ${maxSizeMb} MB`,
+          });
+        }
+        return res.status(400).json({ error: 'Envie um único arquivo no campo "file"' });
+      }
+
+      if (error instanceof UnsupportedFileTypeError) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      return next(error);
+    });
+  };
+}
+
+/**
+ * Middleware que recebe um anexo (comprovante, boleto, nota) no campo "file"
+ */
+export const uploadSingleFile = singleFile(upload, ATTACHMENT_MAX_SIZE_MB);
+
+/**
+ * Middleware que recebe um extrato bancário no campo "file"
+ */
+export const uploadStatementFile = singleFile(statementUpload, STATEMENT_MAX_SIZE_MB);
@@ -4,7 +4,7 @@
  */
 
 import { Router } from 'express';
-import { register, login, me, forgotPassword, resetPassword } from '../controllers/auth.controller';
+import { register, login, me, updateMe, forgotPassword, resetPassword } from '../controllers/auth.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
 const router = Router();
@@ -24,4 +24,7 @@ router.post('/reset-password', resetPassword);
 // Rota protegida - Informações do usuário autenticado
 router.get('/me', authMiddleware, me);
 
+// Rota protegida - Atualizar preferências do usuário (moeda base)
+router.put('/me', authMiddleware, updateMe);
+
 export { router as authRoutes };
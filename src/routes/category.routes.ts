@@ -10,6 +10,7 @@ import {
   createCategory,
   updateCategory,
   deleteCategory,
+  mergeCategory,
 } from '../controllers/category.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
@@ -18,7 +19,7 @@ const router = Router();
 // Todas as rotas de categorias requerem autenticação
 router.use(authMiddleware);
 
-// Listar todas as categorias (pode filtrar por tipo via query ?type=INCOME ou ?type=EXPENSE)
+// Listar todas as categorias (pode filtrar por tipo via query ?type=INCOME ou ?type=EXPENSE; ?tree=true aninha as subcategorias)
 router.get('/', listCategories);
 
 // Buscar uma categoria específica
@@ -30,7 +31,10 @@ router.post('/', createCategory);
 // Atualizar categoria
 router.put('/:id', updateCategory);
 
-// Deletar categoria
+// Deletar categoria (?targetCategoryId=uuid move antes os lançamentos e subcategorias)
 router.delete('/:id', deleteCategory);
 
+// Unir a categoria a outra do mesmo tipo (body: { targetCategoryId })
+router.post('/:id/merge', mergeCategory);
+
 export { router as categoryRoutes };
@@ -0,0 +1,33 @@
+/**
+ * Rotas de Cotações
+ * Define os endpoints da tabela de câmbio do usuário
+ */
+
+import { Router } from 'express';
+import {
+  listExchangeRates,
+  saveExchangeRate,
+  importExchangeRates,
+  deleteExchangeRate,
+} from '../controllers/exchange-rate.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { uploadStatementFile } from '../middlewares/upload.middleware';
+
+const router = Router();
+
+// Todas as rotas de cotações requerem autenticação
+router.use(authMiddleware);
+
+// Listar cotações (filtro: ?currency=USD)
+router.get('/', listExchangeRates);
+
+// Cadastrar cotação (substitui a do mesmo par e data)
+router.post('/', saveExchangeRate);
+
+// Importar cotações de um arquivo CSV (multipart: file); grava todas as linhas ou nenhuma
+router.post('/import', uploadStatementFile, importExchangeRates);
+
+// Deletar cotação
+router.delete('/:id', deleteExchangeRate);
+
+export { router as exchangeRateRoutes };
@@ -0,0 +1,45 @@
+/**
+ * Rotas de Importação
+ * Define os endpoints de importação de extratos bancários
+ */
+
+import { Router } from 'express';
+import {
+  previewOfxImport,
+  confirmOfxImport,
+  listCsvMappings,
+  createCsvMapping,
+  updateCsvMapping,
+  deleteCsvMapping,
+  importCsv,
+} from '../controllers/import.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { uploadStatementFile } from '../middlewares/upload.middleware';
+
+const router = Router();
+
+// Todas as rotas de importação requerem autenticação
+router.use(authMiddleware);
+
+// Prévia de um arquivo OFX (multipart: file e walletId), sem gravar nada
+router.post('/ofx/preview', uploadStatementFile, previewOfxImport);
+
+// Confirmar a importação dos lançamentos da prévia
+router.post('/ofx/confirm', confirmOfxImport);
+
+// Listar mapeamentos de CSV salvos
+router.get('/csv/mappings', listCsvMappings);
+
+// Salvar mapeamento de CSV
+router.post('/csv/mappings', createCsvMapping);
+
+// Atualizar mapeamento de CSV
+router.put('/csv/mappings/:id', updateCsvMapping);
+
+// Deletar mapeamento de CSV
+router.delete('/csv/mappings/:id', deleteCsvMapping);
+
+// Importar arquivo CSV (multipart: file e mappingId ou mapping); grava todas as linhas ou nenhuma
+router.post('/csv', uploadStatementFile, importCsv);
+
+export { router as importRoutes };
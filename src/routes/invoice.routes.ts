@@ -0,0 +1,28 @@
+/**
+ * Rotas de Faturas
+ * Define os endpoints das faturas de cartão de crédito
+ */
+
+import { Router } from 'express';
+import {
+  listInvoices,
+  getInvoice,
+  payInvoice,
+} from '../controllers/invoice.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// Todas as rotas de faturas requerem autenticação
+router.use(authMiddleware);
+
+// Listar faturas (filtros: ?walletId=uuid e ?status=OPEN ou PAID)
+router.get('/', listInvoices);
+
+// Buscar uma fatura com os lançamentos
+router.get('/:id', getInvoice);
+
+// Pagar a fatura a partir de outra carteira
+router.post('/:id/pay', payInvoice);
+
+export { router as invoiceRoutes };
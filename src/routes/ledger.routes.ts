@@ -0,0 +1,28 @@
+/**
+ * Rotas do Livro-Razão
+ * Define os endpoints de consulta e conferência dos lançamentos contábeis
+ */
+
+import { Router } from 'express';
+import {
+  listEntries,
+  getTrialBalanceReport,
+  rebuildLedger,
+} from '../controllers/ledger.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// Todas as rotas do livro-razão requerem autenticação
+router.use(authMiddleware);
+
+// Listar lançamentos contábeis (filtros: ?walletId=uuid, ?source=PAYMENT, ?startDate, ?endDate)
+router.get('/entries', listEntries);
+
+// Balancete (saldos por conta e conferência com o saldo das carteiras)
+router.get('/trial-balance', getTrialBalanceReport);
+
+// Reconstruir o livro-razão a partir do histórico (não altera os saldos salvos)
+router.post('/rebuild', rebuildLedger);
+
+export { router as ledgerRoutes };
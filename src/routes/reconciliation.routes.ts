@@ -0,0 +1,44 @@
+/**
+ * Rotas de Conciliações
+ * Define os endpoints de conciliação das carteiras com o extrato bancário
+ */
+
+import { Router } from 'express';
+import {
+  listReconciliations,
+  getReconciliation,
+  createReconciliation,
+  updateReconciliation,
+  setItems,
+  completeReconciliation,
+  deleteReconciliation,
+} from '../controllers/reconciliation.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// Todas as rotas de conciliações requerem autenticação
+router.use(authMiddleware);
+
+// Listar conciliações (filtro: ?walletId=uuid)
+router.get('/', listReconciliations);
+
+// Buscar conciliação com o resumo e os itens
+router.get('/:id', getReconciliation);
+
+// Iniciar conciliação (walletId, statementDate, statementBalance)
+router.post('/', createReconciliation);
+
+// Corrigir data ou saldo do extrato
+router.put('/:id', updateReconciliation);
+
+// Marcar os itens compensados (transactionIds, transferIds)
+router.put('/:id/items', setItems);
+
+// Concluir conciliação (bloqueia os itens compensados)
+router.post('/:id/complete', completeReconciliation);
+
+// Deletar conciliação (desbloqueia os itens)
+router.delete('/:id', deleteReconciliation);
+
+export { router as reconciliationRoutes };
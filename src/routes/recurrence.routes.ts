@@ -0,0 +1,28 @@
+/**
+ * Rotas de Recorrências
+ * Define os endpoints para gerenciamento das séries recorrentes
+ */
+
+import { Router } from 'express';
+import {
+  listRecurrences,
+  getRecurrence,
+  endRecurrence,
+} from '../controllers/recurrence.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// Todas as rotas de recorrências requerem autenticação
+router.use(authMiddleware);
+
+// Listar regras de recorrência
+router.get('/', listRecurrences);
+
+// Buscar uma regra com os lançamentos da série
+router.get('/:id', getRecurrence);
+
+// Encerrar a série a partir de uma data
+router.post('/:id/end', endRecurrence);
+
+export { router as recurrenceRoutes };
@@ -0,0 +1,36 @@
+/**
+ * Rotas de Tags
+ * Define os endpoints para gerenciamento de tags
+ */
+
+import { Router } from 'express';
+import {
+  listTags,
+  getTag,
+  createTag,
+  updateTag,
+  deleteTag,
+} from '../controllers/tag.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// Todas as rotas de tags requerem autenticação
+router.use(authMiddleware);
+
+// Listar todas as tags (com a quantidade de lançamentos de cada uma)
+router.get('/', listTags);
+
+// Buscar uma tag específica
+router.get('/:id', getTag);
+
+// Criar nova tag
+router.post('/', createTag);
+
+// Atualizar tag
+router.put('/:id', updateTag);
+
+// Deletar tag (os lançamentos são mantidos)
+router.delete('/:id', deleteTag);
+
+export { router as tagRoutes };
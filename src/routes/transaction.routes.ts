@@ -11,8 +11,20 @@ import {
   updateTransaction,
   deleteTransaction,
   payTransaction,
+  unpayTransaction,
+  listPayments,
+  deletePayment,
+  bulkTransactions,
+  unreconcileTransaction,
 } from '../controllers/transaction.controller';
+import {
+  uploadAttachment,
+  listAttachments,
+  downloadAttachment,
+  deleteAttachment,
+} from '../controllers/attachment.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { uploadSingleFile } from '../middlewares/upload.middleware';
 
 const router = Router();
 
@@ -22,6 +34,9 @@ router.use(authMiddleware);
 // Listar todos os lançamentos (suporta filtros via query params)
 router.get('/', listTransactions);
 
+// Operações em massa (pagar, desfazer pagamento, recategorizar, mover ou excluir)
+router.post('/bulk', bulkTransactions);
+
 // Buscar um lançamento específico
 router.get('/:id', getTransaction);
 
@@ -34,7 +49,31 @@ router.put('/:id', updateTransaction);
 // Deletar lançamento
 router.delete('/:id', deleteTransaction);
 
-// Marcar lançamento como pago
+// Registrar pagamento (total ou parcial)
 router.post('/:id/pay', payTransaction);
 
+// Desfazer pagamento (remove todos os pagamentos e reverte os saldos)
+router.post('/:id/unpay', unpayTransaction);
+
+// Listar pagamentos do lançamento
+router.get('/:id/payments', listPayments);
+
+// Remover um pagamento do lançamento
+router.delete('/:id/payments/:paymentId', deletePayment);
+
+// Desfazer a conciliação do lançamento com o extrato (libera alterações)
+router.post('/:id/unreconcile', unreconcileTransaction);
+
+// Anexar arquivo ao lançamento (multipart, campo "file")
+router.post('/:id/attachments', uploadSingleFile, uploadAttachment);
+
+// Listar anexos do lançamento
+router.get('/:id/attachments', listAttachments);
+
+// Baixar um anexo
+router.get('/:id/attachments/:attachmentId/download', downloadAttachment);
+
+// Remover um anexo
+router.delete('/:id/attachments/:attachmentId', deleteAttachment);
+
 export { router as transactionRoutes };
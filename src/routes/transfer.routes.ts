@@ -8,7 +8,10 @@ import {
   listTransfers,
   getTransfer,
   createTransfer,
+  updateTransfer,
   deleteTransfer,
+  confirmTransfer,
+  unreconcileTransfer,
 } from '../controllers/transfer.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
@@ -26,7 +29,16 @@ router.get('/:id', getTransfer);
 // Criar nova transferência
 router.post('/', createTransfer);
 
+// Atualizar transferência (reaplica os saldos)
+router.put('/:id', updateTransfer);
+
 // Deletar transferência
 router.delete('/:id', deleteTransfer);
 
+// Confirmar transferência agendada (executa agora)
+router.post('/:id/confirm', confirmTransfer);
+
+// Desfazer a conciliação da transferência com o extrato (libera alterações)
+router.post('/:id/unreconcile', unreconcileTransfer);
+
 export { router as transferRoutes };
@@ -10,7 +10,17 @@ import {
   createWallet,
   updateWallet,
   deleteWallet,
+  reactivateWallet,
+  mergeWallet,
   getWalletTransactions,
+  checkWalletBalance,
+  adjustBalance,
+  fixBalance,
+  checkAllBalances,
+  fixAllBalances,
+  listAdjustments,
+  getAllBalanceHistory,
+  getWalletBalanceHistory,
 } from '../controllers/wallet.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 
@@ -22,9 +32,33 @@ router.use(authMiddleware);
 // Listar todas as carteiras do usuário
 router.get('/', listWallets);
 
+// Conferir o saldo de todas as carteiras (recalculado a partir do histórico)
+router.get('/balance-check', checkAllBalances);
+
+// Corrigir o saldo de todas as carteiras divergentes
+router.post('/balance-check/fix', fixAllBalances);
+
+// Evolução do saldo das carteiras (diária, semanal ou mensal)
+router.get('/balance-history', getAllBalanceHistory);
+
 // Buscar uma carteira específica
 router.get('/:id', getWallet);
 
+// Conferir o saldo de uma carteira
+router.get('/:id/balance-check', checkWalletBalance);
+
+// Corrigir o saldo de uma carteira (registra um ajuste de saldo)
+router.post('/:id/balance-check/fix', fixBalance);
+
+// Evolução do saldo de uma carteira
+router.get('/:id/balance-history', getWalletBalanceHistory);
+
+// Listar ajustes de saldo da carteira
+router.get('/:id/adjustments', listAdjustments);
+
+// Ajustar o saldo da carteira para um valor informado (registra um ajuste no histórico)
+router.post('/:id/adjustments', adjustBalance);
+
 // Buscar transações de uma carteira
 router.get('/:id/transactions', getWalletTransactions);
 
@@ -37,4 +71,10 @@ router.put('/:id', updateWallet);
 // Deletar carteira (soft delete)
 router.delete('/:id', deleteWallet);
 
+// Reativar carteira desativada
+router.post('/:id/reactivate', reactivateWallet);
+
+// Unir a carteira a outra (move o histórico e desativa a carteira)
+router.post('/:id/merge', mergeWallet);
+
 export { router as walletRoutes };
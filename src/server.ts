@@ -13,6 +13,15 @@ import { transactionRoutes } from './routes/transaction.routes';
 import { transferRoutes } from './routes/transfer.routes';
 import { dashboardRoutes } from './routes/dashboard.routes';
 import reportRoutes from './routes/report.routes';
+import { recurrenceRoutes } from './routes/recurrence.routes';
+import { tagRoutes } from './routes/tag.routes';
+import { invoiceRoutes } from './routes/invoice.routes';
+import { importRoutes } from './routes/import.routes';
+import { reconciliationRoutes } from './routes/reconciliation.routes';
+import { exchangeRateRoutes } from './routes/exchange-rate.routes';
+import { ledgerRoutes } from './routes/ledger.routes';
+import { startRecurrenceJob } from './jobs/recurrence.job';
+import { moneyJsonReplacer } from './lib/money';
 
 // Carrega variáveis de ambiente
 dotenv.config();
@@ -28,6 +37,9 @@ app.use(cors());
 // Parse de JSON no body das requisições
 app.use(express.json());
 
+// Valores monetários (Decimal) são enviados como número nas respostas
+app.set('json replacer', moneyJsonReplacer);
+
 // ==================== ROTAS ====================
 
 // Rota de saúde da API
@@ -47,6 +59,13 @@ app.use('/api/transactions', transactionRoutes);
 app.use('/api/transfers', transferRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/reports', reportRoutes);
+app.use('/api/recurrences', recurrenceRoutes);
+app.use('/api/tags', tagRoutes);
+app.use('/api/invoices', invoiceRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/reconciliations', reconciliationRoutes);
+app.use('/api/exchange-rates', exchangeRateRoutes);
+app.use('/api/ledger', ledgerRoutes);
 
 // Rota para endpoints não encontrados
 app.use('*', (req, res) => {
@@ -62,4 +81,7 @@ app.listen(PORT, () => {
   console.log(`🚀 Servidor rodando na porta ${PORT}`);
   console.log(`📊 Ambiente: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+
+  // Jobs em segundo plano
+  startRecurrenceJob();
 });
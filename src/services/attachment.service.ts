@@ -0,0 +1,37 @@
+/**
+ * Serviço de Anexos
+ * Remove do armazenamento os arquivos dos lançamentos excluídos
+ */
+
+import { Prisma } from '@prisma/client';
+import { storage } from '../lib/storage';
+
+/**
+ * Busca as chaves dos arquivos anexados aos lançamentos
+ * Deve ser chamado antes de excluir os lançamentos (a exclusão remove os registros em cascata)
+ */
+export async function getAttachmentKeys(
+  tx: Prisma.TransactionClient,
+  transactionIds: string[]
+) {
+  const attachments = await tx.attachment.findMany({
+    where: { transactionId: { in: transactionIds } },
+    select: { storageKey: true },
+  });
+
+  return attachments.map((attachment) => attachment.storageKey);
+}
+
+/**
+ * Apaga os arquivos do armazenamento
+ * Chamado depois que a exclusão no banco foi confirmada; falhas são apenas registradas
+ */
+export async function deleteStoredFiles(keys: string[]) {
+  for (const key of keys) {
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Erro ao apagar arquivo ${key}:`, error);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Serviço de Histórico de Saldos
+ * Reconstrói a evolução do saldo das carteiras a partir das partidas do livro-razão
+ * (pagamentos pela data do pagamento, transferências pela data da transferência,
+ * saldos iniciais e ajustes pela data do ajuste)
+ */
+
+import { Prisma, Wallet } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ZERO, sumMoney } from '../lib/money';
+import { CurrencyConverter } from './exchange-rate.service';
+
+export type BalanceInterval = 'daily' | 'weekly' | 'monthly';
+
+// Limite de pontos por série, para não gerar respostas gigantes
+export const MAX_BALANCE_HISTORY_POINTS = 1000;
+
+interface Period {
+  start: Date;
+  end: Date; // Exclusivo
+}
+
+interface Movement {
+  walletId: string;
+  date: Date;
+  change: Prisma.Decimal;
+}
+
+/**
+ * Divide o intervalo em períodos (dias, semanas a partir do início ou meses de calendário), em UTC
+ */
+export function buildPeriods(startDate: Date, endDate: Date, interval: BalanceInterval): Period[] {
+  const periods: Period[] = [];
+  let start = new Date(Date.UTC(
+    startDate.getUTCFullYear(),
+    startDate.getUTCMonth(),
+    interval === 'monthly' ? 1 : startDate.getUTCDate()
+  ));
+
+  while (start <= endDate && periods.length <= MAX_BALANCE_HISTORY_POINTS) {
+    const end = new Date(start);
+
+    if (interval === 'daily') {
+      end.setUTCDate(end.getUTCDate() + 1);
+    } else if (interval === 'weekly') {
+      end.setUTCDate(end.getUTCDate() + 7);
+    } else {
+      end.setUTCMonth(end.getUTCMonth() + 1);
+    }
+
+    periods.push({ start, end });
+    start = end;
+  }
+
+  return periods;
+}
+
+/**
+ * Saldo de cada carteira imediatamente antes da data (partidas anteriores)
+ */
+async function getBalancesBefore(wallets: Wallet[], date: Date) {
+  const groups = await prisma.posting.groupBy({
+    by: ['walletId'],
+    where: {
+      account: 'WALLET',
+      walletId: { in: wallets.map((wallet) => wallet.id) },
+      entry: { date: { lt: date } },
+    },
+    _sum: { amount: true },
+  });
+
+  const balances = new Map(wallets.map((wallet) => [wallet.id, ZERO]));
+
+  for (const group of groups) {
+    if (group.walletId) {
+      balances.set(group.walletId, group._sum.amount ?? ZERO);
+    }
+  }
+
+  return balances;
+}
+
+/**
+ * Movimentações das carteiras dentro do intervalo [início, fim), pela data do lançamento
+ */
+async function getMovements(wallets: Wallet[], startDate: Date, endDate: Date): Promise<Movement[]> {
+  const postings = await prisma.posting.findMany({
+    where: {
+      account: 'WALLET',
+      walletId: { in: wallets.map((wallet) => wallet.id) },
+      entry: { date: { gte: startDate, lt: endDate } },
+    },
+    select: { walletId: true, amount: true, entry: { select: { date: true } } },
+  });
+
+  return postings.map((posting) => ({
+    walletId: posting.walletId!,
+    date: posting.entry.date,
+    change: posting.amount,
+  }));
+}
+
+/**
+ * Série de saldos das carteiras: um ponto por período com o saldo ao fim do período,
+ * na moeda de cada carteira
+ * Com o conversor, inclui também a série do total das carteiras, convertido para a moeda base
+ * pela cotação vigente no fim de cada período
+ */
+export async function getBalanceHistory(
+  wallets: Wallet[],
+  startDate: Date,
+  endDate: Date,
+  interval: BalanceInterval,
+  converter?: CurrencyConverter
+) {
+  const periods = buildPeriods(startDate, endDate, interval);
+
+  if (periods.length === 0) {
+    return { interval, startDate, endDate, baseCurrency: converter?.baseCurrency, wallets: [], total: [] };
+  }
+
+  const rangeStart = periods[0].start;
+  const rangeEnd = periods[periods.length - 1].end;
+
+  const [balances, movements] = await Promise.all([
+    getBalancesBefore(wallets, rangeStart),
+    getMovements(wallets, rangeStart, rangeEnd),
+  ]);
+
+  movements.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const series = new Map(wallets.map((wallet) => [wallet.id, [] as { date: Date; balance: Prisma.Decimal }[]]));
+  const total: { date: Date; balance: Prisma.Decimal }[] = [];
+  let next = 0;
+
+  for (const period of periods) {
+    // Aplica as movimentações até o fim do período
+    while (next < movements.length && movements[next].date < period.end) {
+      const movement = movements[next];
+      balances.set(movement.walletId, balances.get(movement.walletId)!.plus(movement.change));
+      next += 1;
+    }
+
+    for (const wallet of wallets) {
+      series.get(wallet.id)!.push({ date: period.start, balance: balances.get(wallet.id)! });
+    }
+
+    if (converter) {
+      const periodLastInstant = new Date(period.end.getTime() - 1);
+      total.push({
+        date: period.start,
+        balance: sumMoney(
+          wallets.map((wallet) =>
+            converter.convert(balances.get(wallet.id)!, wallet.currency, periodLastInstant)
+          )
+        ),
+      });
+    }
+  }
+
+  return {
+    interval,
+    startDate: rangeStart,
+    endDate,
+    baseCurrency: converter?.baseCurrency,
+    wallets: wallets.map((wallet) => ({
+      walletId: wallet.id,
+      name: wallet.name,
+      type: wallet.type,
+      currency: wallet.currency,
+      points: series.get(wallet.id)!,
+    })),
+    total,
+  };
+}
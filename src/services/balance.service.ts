@@ -0,0 +1,144 @@
+/**
+ * Serviço de Saldos
+ * Saldo inicial e ajustes de saldo das carteiras (lançados no livro-razão)
+ * e conferência do saldo salvo com o saldo das partidas
+ */
+
+import { Prisma, Wallet } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { ZERO, sumMoney } from '../lib/money';
+import {
+  JOURNAL_SOURCES,
+  JournalSource,
+  buildAdjustmentEntry,
+  postJournalEntry,
+} from './ledger.service';
+
+/**
+ * Recalcula o saldo da carteira a partir das partidas do livro-razão,
+ * detalhado por origem: saldo inicial, ajustes, pagamentos e transferências
+ */
+export async function computeWalletBalance(tx: Prisma.TransactionClient, wallet: Wallet) {
+  const totals = await Promise.all(
+    JOURNAL_SOURCES.map((source) =>
+      tx.posting.aggregate({
+        where: { walletId: wallet.id, account: 'WALLET', entry: { source } },
+        _sum: { amount: true },
+      })
+    )
+  );
+
+  const sourceTotal = (source: JournalSource) =>
+    totals[JOURNAL_SOURCES.indexOf(source)]._sum.amount ?? ZERO;
+
+  const breakdown = {
+    openingBalance: sourceTotal('OPENING'),
+    adjustments: sourceTotal('ADJUSTMENT'),
+    payments: sourceTotal('PAYMENT'),
+    transfers: sourceTotal('TRANSFER'),
+  };
+
+  const computedBalance = sumMoney(Object.values(breakdown));
+
+  return {
+    walletId: wallet.id,
+    name: wallet.name,
+    storedBalance: wallet.balance,
+    computedBalance,
+    difference: computedBalance.minus(wallet.balance),
+    breakdown,
+  };
+}
+
+/**
+ * Corrige o saldo salvo para o valor das partidas e registra a correção para auditoria
+ * A correção não gera lançamento: o livro-razão já é a referência do saldo
+ * Retorna null se o saldo já está correto
+ */
+export async function fixWalletBalance(
+  tx: Prisma.TransactionClient,
+  wallet: Wallet,
+  reason?: string
+) {
+  const check = await computeWalletBalance(tx, wallet);
+
+  if (check.difference.isZero()) {
+    return null;
+  }
+
+  await tx.wallet.update({
+    where: { id: wallet.id },
+    data: { balance: check.computedBalance },
+  });
+
+  return tx.walletAdjustment.create({
+    data: {
+      kind: 'CORRECTION',
+      previousBalance: check.storedBalance,
+      newBalance: check.computedBalance,
+      difference: check.difference,
+      reason,
+      userId: wallet.userId,
+      walletId: wallet.id,
+    },
+  });
+}
+
+/**
+ * Ajusta o saldo da carteira para o valor informado (ex.: o saldo do banco), registrando
+ * a diferença como um ajuste que entra no histórico do saldo
+ */
+export async function adjustWalletBalance(
+  tx: Prisma.TransactionClient,
+  wallet: Wallet,
+  newBalance: Prisma.Decimal,
+  reason?: string
+) {
+  const difference = newBalance.minus(wallet.balance);
+
+  if (difference.isZero()) {
+    throw new AppError('O saldo da carteira já é esse valor');
+  }
+
+  const adjustment = await tx.walletAdjustment.create({
+    data: {
+      kind: 'ADJUSTMENT',
+      previousBalance: wallet.balance,
+      newBalance,
+      difference,
+      reason,
+      userId: wallet.userId,
+      walletId: wallet.id,
+    },
+  });
+
+  await postJournalEntry(tx, await buildAdjustmentEntry(tx, adjustment));
+
+  return adjustment;
+}
+
+/**
+ * Registra o saldo inicial de uma carteira recém-criada como lançamento de abertura na data informada
+ */
+export async function openWalletBalance(
+  tx: Prisma.TransactionClient,
+  wallet: Wallet,
+  openingBalance: Prisma.Decimal,
+  date: Date
+) {
+  const adjustment = await tx.walletAdjustment.create({
+    data: {
+      kind: 'OPENING',
+      previousBalance: ZERO,
+      newBalance: openingBalance,
+      difference: openingBalance,
+      date,
+      userId: wallet.userId,
+      walletId: wallet.id,
+    },
+  });
+
+  await postJournalEntry(tx, await buildAdjustmentEntry(tx, adjustment));
+
+  return adjustment;
+}
@@ -0,0 +1,74 @@
+/**
+ * Serviço de Categorias
+ * Reatribuição dos lançamentos, divisões e subcategorias de uma categoria para outra
+ * (exclusão com reatribuição e união de categorias)
+ */
+
+import { Category, Prisma } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { getDescendantIds } from '../lib/categories';
+
+/**
+ * Confere se a categoria de destino pode receber o conteúdo da categoria de origem:
+ * diferente da origem, ativa, do mesmo tipo e fora da subárvore da origem
+ */
+async function assertValidTarget(tx: Prisma.TransactionClient, source: Category, target: Category) {
+  if (source.id === target.id) {
+    throw new AppError('Categoria de destino deve ser diferente da categoria de origem');
+  }
+
+  if (!target.isActive) {
+    throw new AppError('Categoria de destino está inativa');
+  }
+
+  if (source.type !== target.type) {
+    throw new AppError('Categoria de destino deve ser do mesmo tipo da categoria de origem');
+  }
+
+  const categories = await tx.category.findMany({
+    where: { userId: source.userId },
+    select: { id: true, parentId: true },
+  });
+
+  if (getDescendantIds([source.id], categories).includes(target.id)) {
+    throw new AppError('Categoria de destino não pode ser uma subcategoria da categoria de origem');
+  }
+}
+
+/**
+ * Leva os lançamentos, as divisões e as subcategorias da origem para o destino
+ * e exclui a categoria de origem (o destino mantém nome, cor, ícone e categoria pai)
+ * Retorna quantos registros foram movidos
+ */
+export async function mergeCategories(
+  tx: Prisma.TransactionClient,
+  source: Category,
+  target: Category
+) {
+  await assertValidTarget(tx, source, target);
+
+  const transactions = await tx.transaction.updateMany({
+    where: { categoryId: source.id },
+    data: { categoryId: target.id },
+  });
+
+  const splits = await tx.transactionSplit.updateMany({
+    where: { categoryId: source.id },
+    data: { categoryId: target.id },
+  });
+
+  const subcategories = await tx.category.updateMany({
+    where: { parentId: source.id },
+    data: { parentId: target.id },
+  });
+
+  await tx.category.delete({
+    where: { id: source.id },
+  });
+
+  return {
+    transactions: transactions.count,
+    splits: splits.count,
+    subcategories: subcategories.count,
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Serviço de Câmbio
+ * Converte valores entre moedas pela tabela de cotações do usuário,
+ * usando a cotação vigente em cada data
+ */
+
+import { ExchangeRate, Prisma } from '@prisma/client';
+import { AppError } from '../lib/errors';
+
+/**
+ * Conversor para a moeda base do usuário, com as cotações já carregadas
+ * (para relatórios que convertem muitos valores)
+ */
+export interface CurrencyConverter {
+  baseCurrency: string;
+  convert(amount: Prisma.Decimal, currency: string, date: Date): Prisma.Decimal;
+}
+
+/**
+ * Cotação vigente na data: a mais recente até a data, do par direto ou do inverso (1 / rate)
+ * Retorna null se não houver cotação até a data
+ */
+function findRate(rates: ExchangeRate[], from: string, to: string, date: Date) {
+  let current: ExchangeRate | null = null;
+
+  for (const rate of rates) {
+    const matches =
+      (rate.fromCurrency === from && rate.toCurrency === to) ||
+      (rate.fromCurrency === to && rate.toCurrency === from);
+
+    if (matches && rate.date <= date && (!current || rate.date > current.date)) {
+      current = rate;
+    }
+  }
+
+  if (!current) {
+    return null;
+  }
+
+  return current.fromCurrency === from ? current.rate : new Prisma.Decimal(1).dividedBy(current.rate);
+}
+
+function missingRateError(from: string, to: string, date: Date) {
+  return new AppError(
+    `Nenhuma cotação de ${from} para ${to} cadastrada até ${date.toISOString().slice(0, 10)}`
+  );
+}
+
+/**
+ * Converte um valor entre duas moedas pela cotação vigente na data
+ */
+export async function convertAmount(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amount: Prisma.Decimal,
+  from: string,
+  to: string,
+  date: Date
+) {
+  if (from === to) {
+    return amount;
+  }
+
+  const rates = await tx.exchangeRate.findMany({
+    where: {
+      userId,
+      date: { lte: date },
+      OR: [
+        { fromCurrency: from, toCurrency: to },
+        { fromCurrency: to, toCurrency: from },
+      ],
+    },
+  });
+
+  const rate = findRate(rates, from, to, date);
+
+  if (!rate) {
+    throw missingRateError(from, to, date);
+  }
+
+  return amount.times(rate).toDecimalPlaces(2);
+}
+
+/**
+ * Carrega a moeda base e as cotações do usuário envolvendo a moeda base
+ * Valores sem cotação até a data recusam a conversão com AppError
+ */
+export async function getCurrencyConverter(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<CurrencyConverter> {
+  const { baseCurrency } = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { baseCurrency: true },
+  });
+
+  const rates = await tx.exchangeRate.findMany({
+    where: {
+      userId,
+      OR: [{ fromCurrency: baseCurrency }, { toCurrency: baseCurrency }],
+    },
+  });
+
+  return {
+    baseCurrency,
+    convert(amount, currency, date) {
+      if (currency === baseCurrency || amount.isZero()) {
+        return amount;
+      }
+
+      const rate = findRate(rates, currency, baseCurrency, date);
+
+      if (!rate) {
+        throw missingRateError(currency, baseCurrency, date);
+      }
+
+      return amount.times(rate).toDecimalPlaces(2);
+    },
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Serviço de Importação de Extratos
+ * Cria lançamentos já pagos a partir de linhas de extratos bancários
+ */
+
+import { Prisma, Wallet } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { addPayment } from './payment.service';
+import { resolveInvoiceId } from './invoice.service';
+
+export interface ImportEntry {
+  date: Date;
+  amount: Prisma.Decimal;
+  type: 'INCOME' | 'EXPENSE';
+  description: string;
+  notes?: string | null;
+  categoryId: string;
+  fitId?: string | null;
+}
+
+/**
+ * Lançamentos da carteira já importados com os FITIDs informados (FITID -> id do lançamento)
+ */
+export async function findImportedFitIds(walletId: string, fitIds: string[]) {
+  const transactions = await prisma.transaction.findMany({
+    where: { walletId, fitId: { in: fitIds } },
+    select: { id: true, fitId: true },
+  });
+
+  return new Map(transactions.map((transaction) => [transaction.fitId!, transaction.id]));
+}
+
+/**
+ * Confere se as categorias usadas na importação pertencem ao usuário
+ * e têm o mesmo tipo do lançamento
+ */
+export async function assertImportCategories(userId: string, entries: ImportEntry[]) {
+  const categoryIds = Array.from(new Set(entries.map((entry) => entry.categoryId)));
+
+  const categories = await prisma.category.findMany({
+    where: { id: { in: categoryIds }, userId },
+  });
+  const typeById = new Map(categories.map((category) => [category.id, category.type]));
+
+  for (const entry of entries) {
+    const categoryType = typeById.get(entry.categoryId);
+
+    if (!categoryType) {
+      throw new AppError('Categoria não encontrada', 404);
+    }
+
+    if (categoryType !== entry.type) {
+      throw new AppError(
+        `Tipo da categoria não corresponde ao tipo do lançamento "${entry.description}"`
+      );
+    }
+  }
+}
+
+/**
+ * Cria os lançamentos importados na carteira, já pagos na data do extrato
+ * Em cartões com fatura, cada lançamento entra na fatura da sua data
+ * Os lançamentos são criados em ordem de data, como ocorreram na conta
+ */
+export async function importTransactions(
+  tx: Prisma.TransactionClient,
+  wallet: Wallet,
+  entries: ImportEntry[]
+) {
+  const sorted = [...entries].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const created = [];
+
+  for (const entry of sorted) {
+    const transaction = await tx.transaction.create({
+      data: {
+        invoiceId: await resolveInvoiceId(tx, wallet, entry.date),
+        description: entry.description,
+        amount: entry.amount,
+        type: entry.type,
+        dueDate: entry.date,
+        notes: entry.notes ?? null,
+        fitId: entry.fitId ?? null,
+        userId: wallet.userId,
+        walletId: wallet.id,
+        categoryId: entry.categoryId,
+      },
+    });
+
+    await addPayment(tx, transaction, { date: entry.date });
+
+    created.push(transaction);
+  }
+
+  return created;
+}
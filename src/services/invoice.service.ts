@@ -0,0 +1,231 @@
+/**
+ * Serviço de Faturas
+ * Vincula os lançamentos dos cartões de crédito às faturas e registra o pagamento das faturas
+ */
+
+import { Invoice, Prisma, Transaction, Wallet } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { ZERO } from '../lib/money';
+import { getInvoicePeriod } from '../lib/invoices';
+import { buildTransferEntry, postJournalEntry } from './ledger.service';
+import { addPayment } from './payment.service';
+
+interface PayInvoiceInput {
+  walletId: string; // Carteira de onde sai o pagamento
+  date?: Date; // Padrão: agora
+}
+
+/**
+ * Formata o mês de referência da fatura (ex: "03/2026")
+ */
+export function formatInvoiceReference(invoice: Pick<Invoice, 'month' | 'year'>) {
+  return `${String(invoice.month).padStart(2, '0')}/${invoice.year}`;
+}
+
+/**
+ * Cartões com dia de fechamento e vencimento têm os lançamentos organizados em faturas
+ */
+export function usesInvoices(
+  wallet: Pick<Wallet, 'type' | 'closingDay' | 'dueDay'>
+): wallet is Wallet & { closingDay: number; dueDay: number } {
+  return wallet.type === 'CREDIT_CARD' && wallet.closingDay !== null && wallet.dueDay !== null;
+}
+
+/**
+ * Retorna o id da fatura em que cai uma compra do cartão, criando a fatura se preciso
+ * Se essa fatura já foi paga (ex.: pagamento antecipado), a compra vai para a próxima fatura em aberto
+ * Carteiras que não usam faturas retornam null
+ * offset avança N faturas (parcelas de uma compra parcelada, uma por fatura)
+ */
+export async function resolveInvoiceId(
+  tx: Prisma.TransactionClient,
+  wallet: Wallet,
+  purchaseDate: Date,
+  offset = 0
+): Promise<string | null> {
+  if (!usesInvoices(wallet)) {
+    return null;
+  }
+
+  let period = getInvoicePeriod(wallet.closingDay, wallet.dueDay, purchaseDate, offset);
+
+  for (let next = offset + 1; ; next++) {
+    const existing = await tx.invoice.findUnique({
+      where: {
+        walletId_year_month: { walletId: wallet.id, year: period.year, month: period.month },
+      },
+    });
+
+    if (!existing) {
+      break;
+    }
+
+    if (existing.status !== 'PAID') {
+      return existing.id;
+    }
+
+    period = getInvoicePeriod(wallet.closingDay, wallet.dueDay, purchaseDate, next);
+  }
+
+  const invoice = await tx.invoice.create({
+    data: {
+      ...period,
+      userId: wallet.userId,
+      walletId: wallet.id,
+    },
+  });
+
+  return invoice.id;
+}
+
+/**
+ * Impede alterações em lançamentos de uma fatura já paga
+ */
+export async function assertInvoiceNotPaid(
+  tx: Prisma.TransactionClient,
+  transaction: Pick<Transaction, 'invoiceId'>
+) {
+  if (!transaction.invoiceId) {
+    return;
+  }
+
+  const invoice = await tx.invoice.findUnique({
+    where: { id: transaction.invoiceId },
+  });
+
+  if (invoice?.status === 'PAID') {
+    throw new AppError(
+      `Lançamento pertence à fatura ${formatInvoiceReference(invoice)}, que já foi paga`
+    );
+  }
+}
+
+/**
+ * Reavalia a fatura de um lançamento alterado
+ * Lançamentos de fatura paga não podem mudar de valor, tipo, carteira ou data;
+ * mudanças de carteira ou data levam o lançamento para a fatura correspondente
+ */
+export async function syncTransactionInvoice(
+  tx: Prisma.TransactionClient,
+  before: Transaction,
+  after: Transaction
+) {
+  const walletChanged = before.walletId !== after.walletId;
+  const dateChanged = before.dueDate.getTime() !== after.dueDate.getTime();
+  const valueChanged = !before.amount.equals(after.amount) || before.type !== after.type;
+
+  if (!walletChanged && !dateChanged && !valueChanged) {
+    return;
+  }
+
+  await assertInvoiceNotPaid(tx, before);
+
+  if (!walletChanged && !dateChanged) {
+    return;
+  }
+
+  const wallet = await tx.wallet.findUniqueOrThrow({ where: { id: after.walletId } });
+  const invoiceId = await resolveInvoiceId(tx, wallet, after.dueDate);
+
+  if (invoiceId !== before.invoiceId) {
+    await tx.transaction.update({
+      where: { id: after.id },
+      data: { invoiceId },
+    });
+  }
+}
+
+/**
+ * Total da fatura: despesas menos estornos (receitas lançadas no cartão)
+ */
+export async function getInvoiceTotal(tx: Prisma.TransactionClient, invoiceId: string) {
+  const totals = await tx.transaction.groupBy({
+    by: ['type'],
+    where: { invoiceId },
+    _sum: { amount: true },
+  });
+
+  return totals.reduce((total, group) => {
+    const amount = group._sum.amount ?? ZERO;
+    return group.type === 'EXPENSE' ? total.plus(amount) : total.minus(amount);
+  }, ZERO);
+}
+
+/**
+ * Paga a fatura com uma única transferência da carteira de origem para o cartão
+ * Lançamentos da fatura ainda em aberto são quitados pelo cartão antes da transferência
+ */
+export async function payInvoice(
+  tx: Prisma.TransactionClient,
+  invoice: Invoice,
+  input: PayInvoiceInput
+) {
+  if (invoice.status === 'PAID') {
+    throw new AppError('Fatura já está paga');
+  }
+
+  const sourceWallet = await tx.wallet.findFirst({
+    where: { id: input.walletId, userId: invoice.userId },
+  });
+
+  if (!sourceWallet) {
+    throw new AppError('Carteira de origem não encontrada', 404);
+  }
+
+  if (!sourceWallet.isActive) {
+    throw new AppError('Não é possível pagar a fatura com uma carteira inativa');
+  }
+
+  if (sourceWallet.type === 'CREDIT_CARD') {
+    throw new AppError('A fatura não pode ser paga com um cartão de crédito');
+  }
+
+  const card = await tx.wallet.findUniqueOrThrow({ where: { id: invoice.walletId } });
+
+  if (sourceWallet.currency !== card.currency) {
+    throw new AppError('A fatura deve ser paga com uma carteira na moeda do cartão');
+  }
+
+  const date = input.date ?? new Date();
+  const total = await getInvoiceTotal(tx, invoice.id);
+
+  if (total.greaterThan(0) && sourceWallet.balance.lessThan(total)) {
+    throw new AppError('Saldo insuficiente na carteira de origem');
+  }
+
+  // Quita os lançamentos ainda em aberto (ex: recorrentes) pelo cartão
+  const openTransactions = await tx.transaction.findMany({
+    where: { invoiceId: invoice.id, status: { not: 'PAID' } },
+  });
+
+  for (const transaction of openTransactions) {
+    await addPayment(tx, transaction, { date, walletId: invoice.walletId });
+  }
+
+  let transferId: string | null = null;
+
+  if (total.greaterThan(0)) {
+    const transfer = await tx.transfer.create({
+      data: {
+        amount: total,
+        toAmount: total,
+        description: `Pagamento da fatura ${formatInvoiceReference(invoice)}`,
+        date,
+        userId: invoice.userId,
+        fromWalletId: sourceWallet.id,
+        toWalletId: invoice.walletId,
+      },
+    });
+    await postJournalEntry(tx, await buildTransferEntry(tx, transfer));
+    transferId = transfer.id;
+  }
+
+  return tx.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      status: 'PAID',
+      paidAt: date,
+      transferId,
+    },
+  });
+}
@@ -0,0 +1,492 @@
+/**
+ * Serviço do Livro-Razão
+ * Ponto único de movimentação de dinheiro: cada pagamento, transferência executada,
+ * saldo inicial e ajuste de saldo vira um lançamento contábil em partidas dobradas,
+ * e o saldo salvo das carteiras acompanha as partidas da conta WALLET
+ */
+
+import { Payment, Prisma, Transaction, Transfer, WalletAdjustment } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { ZERO, signedAmount, sumMoney } from '../lib/money';
+import { getCreditedAmount } from '../lib/currencies';
+import { getBalanceRuleViolation } from '../lib/wallets';
+
+export type LedgerAccount = 'WALLET' | 'INCOME' | 'EXPENSE' | 'EQUITY' | 'EXCHANGE';
+
+export const JOURNAL_SOURCES = ['PAYMENT', 'TRANSFER', 'OPENING', 'ADJUSTMENT'] as const;
+
+export type JournalSource = (typeof JOURNAL_SOURCES)[number];
+
+// Ajustes de saldo que movimentam a carteira e entram no livro-razão
+// (as correções só acertam o saldo salvo com o das partidas)
+export const LEDGER_ADJUSTMENT_KINDS = ['OPENING', 'ADJUSTMENT'];
+
+interface PostingInput {
+  account: LedgerAccount;
+  amount: Prisma.Decimal; // Positivo = débito, negativo = crédito
+  currency: string;
+  walletId?: string; // Apenas na conta WALLET
+}
+
+export interface JournalEntryInput {
+  userId: string;
+  date: Date;
+  description: string;
+  source: JournalSource;
+  sourceId: string;
+  reversalOfId?: string;
+  postings: PostingInput[];
+}
+
+type TransferLike = Pick<
+  Transfer,
+  'id' | 'userId' | 'date' | 'description' | 'amount' | 'toAmount' | 'fromWalletId' | 'toWalletId'
+>;
+
+// ==================== PARTIDAS ====================
+
+/**
+ * Confere se as partidas do lançamento somam zero em cada moeda
+ */
+function assertBalanced(entry: JournalEntryInput) {
+  const totals = new Map<string, Prisma.Decimal>();
+
+  for (const posting of entry.postings) {
+    totals.set(posting.currency, (totals.get(posting.currency) ?? ZERO).plus(posting.amount));
+  }
+
+  for (const [currency, total] of totals) {
+    if (!total.isZero()) {
+      throw new AppError(`Lançamento contábil desbalanceado em ${currency} (${entry.description})`, 500);
+    }
+  }
+}
+
+/**
+ * Aplica as partidas da conta WALLET ao saldo salvo das carteiras
+ * As alterações são somadas por carteira e os débitos são conferidos contra a regra
+ * do tipo da carteira (dinheiro sem saldo negativo, cartão de crédito dentro do limite)
+ * antes de qualquer escrita, assim uma recusa não deixa saldos pela metade
+ */
+async function applyWalletPostings(tx: Prisma.TransactionClient, postings: PostingInput[]) {
+  const netChanges = new Map<string, Prisma.Decimal>();
+
+  for (const { account, walletId, amount } of postings) {
+    if (account === 'WALLET' && walletId) {
+      netChanges.set(walletId, (netChanges.get(walletId) ?? ZERO).plus(amount));
+    }
+  }
+
+  const debitedIds = Array.from(netChanges.entries())
+    .filter(([, change]) => change.lessThan(0))
+    .map(([walletId]) => walletId);
+
+  if (debitedIds.length > 0) {
+    const wallets = await tx.wallet.findMany({
+      where: { id: { in: debitedIds } },
+    });
+
+    for (const wallet of wallets) {
+      const violation = getBalanceRuleViolation({
+        ...wallet,
+        balance: wallet.balance.plus(netChanges.get(wallet.id)!),
+      });
+
+      if (violation) {
+        throw new AppError(`${violation} (${wallet.name})`);
+      }
+    }
+  }
+
+  for (const [walletId, change] of netChanges) {
+    if (change.isZero()) {
+      continue;
+    }
+
+    await tx.wallet.update({
+      where: { id: walletId },
+      data: {
+        balance: {
+          increment: change,
+        },
+      },
+    });
+  }
+}
+
+/**
+ * Grava o lançamento com as partidas (as de valor zero são descartadas)
+ */
+function writeJournalEntry(tx: Prisma.TransactionClient, entry: JournalEntryInput) {
+  return tx.journalEntry.create({
+    data: {
+      date: entry.date,
+      description: entry.description,
+      source: entry.source,
+      sourceId: entry.sourceId,
+      reversalOfId: entry.reversalOfId,
+      userId: entry.userId,
+      postings: {
+        create: entry.postings
+          .filter((posting) => !posting.amount.isZero())
+          .map((posting) => ({
+            account: posting.account,
+            amount: posting.amount,
+            currency: posting.currency,
+            walletId: posting.walletId,
+          })),
+      },
+    },
+  });
+}
+
+/**
+ * Registra vários lançamentos de uma vez e move os saldos das carteiras
+ * O efeito líquido de todos os lançamentos é conferido junto (ex.: estorno + novo lançamento
+ * na edição de uma transferência), como se fosse uma única movimentação
+ */
+export async function postJournalEntries(tx: Prisma.TransactionClient, entries: JournalEntryInput[]) {
+  entries.forEach(assertBalanced);
+
+  await applyWalletPostings(tx, entries.flatMap((entry) => entry.postings));
+
+  const created = [];
+  for (const entry of entries) {
+    created.push(await writeJournalEntry(tx, entry));
+  }
+
+  return created;
+}
+
+/**
+ * Registra um lançamento e move os saldos das carteiras
+ */
+export async function postJournalEntry(tx: Prisma.TransactionClient, entry: JournalEntryInput) {
+  const [created] = await postJournalEntries(tx, [entry]);
+  return created;
+}
+
+// ==================== LANÇAMENTOS POR ORIGEM ====================
+
+/**
+ * Moeda de cada carteira (as partidas ficam na moeda da carteira movimentada)
+ */
+async function getWalletCurrencies(tx: Prisma.TransactionClient, walletIds: string[]) {
+  const wallets = await tx.wallet.findMany({
+    where: { id: { in: walletIds } },
+    select: { id: true, currency: true },
+  });
+
+  return new Map(wallets.map((wallet) => [wallet.id, wallet.currency]));
+}
+
+/**
+ * Pagamento: a carteira contra a conta de receitas ou de despesas
+ */
+function paymentEntry(
+  transaction: Pick<Transaction, 'type' | 'description' | 'userId'>,
+  payment: Pick<Payment, 'id' | 'amount' | 'date' | 'walletId'>,
+  currency: string
+): JournalEntryInput {
+  const change = signedAmount(transaction.type, payment.amount);
+
+  return {
+    userId: transaction.userId,
+    date: payment.date,
+    description: transaction.description,
+    source: 'PAYMENT',
+    sourceId: payment.id,
+    postings: [
+      { account: 'WALLET', walletId: payment.walletId, amount: change, currency },
+      { account: transaction.type === 'INCOME' ? 'INCOME' : 'EXPENSE', amount: change.negated(), currency },
+    ],
+  };
+}
+
+/**
+ * Transferência: sai da origem e entra no destino pelo valor creditado
+ * Entre moedas (ou valores) diferentes, cada lado fecha contra a conta de câmbio
+ */
+function transferEntry(
+  transfer: TransferLike,
+  fromCurrency: string,
+  toCurrency: string
+): JournalEntryInput {
+  const creditedAmount = getCreditedAmount(transfer);
+  const postings: PostingInput[] = [
+    { account: 'WALLET', walletId: transfer.fromWalletId, amount: transfer.amount.negated(), currency: fromCurrency },
+    { account: 'WALLET', walletId: transfer.toWalletId, amount: creditedAmount, currency: toCurrency },
+  ];
+
+  if (fromCurrency !== toCurrency || !creditedAmount.equals(transfer.amount)) {
+    postings.push(
+      { account: 'EXCHANGE', amount: transfer.amount, currency: fromCurrency },
+      { account: 'EXCHANGE', amount: creditedAmount.negated(), currency: toCurrency }
+    );
+  }
+
+  return {
+    userId: transfer.userId,
+    date: transfer.date,
+    description: transfer.description ?? 'Transferência',
+    source: 'TRANSFER',
+    sourceId: transfer.id,
+    postings,
+  };
+}
+
+/**
+ * Saldo inicial ou ajuste de saldo: a carteira contra o patrimônio
+ */
+function adjustmentEntry(adjustment: WalletAdjustment, currency: string): JournalEntryInput {
+  const isOpening = adjustment.kind === 'OPENING';
+
+  return {
+    userId: adjustment.userId,
+    date: adjustment.date,
+    description: adjustment.reason ?? (isOpening ? 'Saldo inicial' : 'Ajuste de saldo'),
+    source: isOpening ? 'OPENING' : 'ADJUSTMENT',
+    sourceId: adjustment.id,
+    postings: [
+      { account: 'WALLET', walletId: adjustment.walletId, amount: adjustment.difference, currency },
+      { account: 'EQUITY', amount: adjustment.difference.negated(), currency },
+    ],
+  };
+}
+
+/**
+ * Lançamento de um pagamento de lançamento (receita ou despesa)
+ */
+export async function buildPaymentEntry(
+  tx: Prisma.TransactionClient,
+  transaction: Pick<Transaction, 'type' | 'description' | 'userId'>,
+  payment: Pick<Payment, 'id' | 'amount' | 'date' | 'walletId'>
+) {
+  const currencies = await getWalletCurrencies(tx, [payment.walletId]);
+  return paymentEntry(transaction, payment, currencies.get(payment.walletId)!);
+}
+
+/**
+ * Lançamento de uma transferência executada
+ */
+export async function buildTransferEntry(tx: Prisma.TransactionClient, transfer: TransferLike) {
+  const currencies = await getWalletCurrencies(tx, [transfer.fromWalletId, transfer.toWalletId]);
+  return transferEntry(
+    transfer,
+    currencies.get(transfer.fromWalletId)!,
+    currencies.get(transfer.toWalletId)!
+  );
+}
+
+/**
+ * Lançamento de um saldo inicial ou ajuste de saldo
+ */
+export async function buildAdjustmentEntry(tx: Prisma.TransactionClient, adjustment: WalletAdjustment) {
+  const currencies = await getWalletCurrencies(tx, [adjustment.walletId]);
+  return adjustmentEntry(adjustment, currencies.get(adjustment.walletId)!);
+}
+
+type JournalEntryWithPostings = Prisma.JournalEntryGetPayload<{ include: { postings: true } }>;
+
+/**
+ * Lançamentos ainda não estornados (e que não são estornos) que atendem ao filtro
+ */
+function findActiveEntries(tx: Prisma.TransactionClient, where: Prisma.JournalEntryWhereInput) {
+  return tx.journalEntry.findMany({
+    where: {
+      ...where,
+      reversalOfId: null,
+      reversals: { none: {} },
+    },
+    include: { postings: true },
+  });
+}
+
+/**
+ * Cópia do lançamento com as partidas transformadas
+ */
+function copyEntry(
+  entry: JournalEntryWithPostings,
+  mapPosting: (posting: PostingInput) => PostingInput
+): JournalEntryInput {
+  return {
+    userId: entry.userId,
+    date: entry.date,
+    description: entry.description,
+    source: entry.source as JournalSource,
+    sourceId: entry.sourceId,
+    postings: entry.postings.map((posting) => mapPosting({
+      account: posting.account as LedgerAccount,
+      amount: posting.amount,
+      currency: posting.currency,
+      walletId: posting.walletId ?? undefined,
+    })),
+  };
+}
+
+/**
+ * Estorno do lançamento: mesma data, partidas com sinal trocado
+ * Fica na data do lançamento original, assim o histórico do saldo
+ * e as conciliações continuam batendo com os pagamentos e transferências atuais
+ */
+function reversalEntry(entry: JournalEntryWithPostings): JournalEntryInput {
+  return {
+    ...copyEntry(entry, (posting) => ({ ...posting, amount: posting.amount.negated() })),
+    description: `Estorno: ${entry.description}`,
+    reversalOfId: entry.id,
+  };
+}
+
+/**
+ * Estornos dos lançamentos ainda não estornados das origens informadas
+ */
+export async function buildReversalEntries(
+  tx: Prisma.TransactionClient,
+  sourceIds: string[]
+): Promise<JournalEntryInput[]> {
+  if (sourceIds.length === 0) {
+    return [];
+  }
+
+  const entries = await findActiveEntries(tx, { sourceId: { in: sourceIds } });
+
+  return entries.map(reversalEntry);
+}
+
+/**
+ * Estorna os lançamentos das origens informadas, revertendo os saldos das carteiras
+ */
+export async function reverseJournalEntries(tx: Prisma.TransactionClient, sourceIds: string[]) {
+  return postJournalEntries(tx, await buildReversalEntries(tx, sourceIds));
+}
+
+/**
+ * Leva as partidas de uma carteira para outra (união de carteiras): estorna os lançamentos
+ * que movimentam a carteira de origem e os lança de novo com a carteira de destino
+ * Os lançamentos das origens em droppedSourceIds (ex.: transferências entre as duas carteiras)
+ * só são estornados
+ */
+export async function moveWalletPostings(
+  tx: Prisma.TransactionClient,
+  fromWalletId: string,
+  toWalletId: string,
+  droppedSourceIds: string[] = []
+) {
+  const entries = await findActiveEntries(tx, { postings: { some: { walletId: fromWalletId } } });
+
+  const moved = entries
+    .filter((entry) => !droppedSourceIds.includes(entry.sourceId))
+    .map((entry) => copyEntry(entry, (posting) => ({
+      ...posting,
+      walletId: posting.walletId === fromWalletId ? toWalletId : posting.walletId,
+    })));
+
+  return postJournalEntries(tx, [...entries.map(reversalEntry), ...moved]);
+}
+
+// ==================== CONFERÊNCIA ====================
+
+/**
+ * Reconstrói o livro-razão do usuário a partir do histórico (pagamentos, transferências
+ * executadas, saldos iniciais e ajustes de saldo), sem alterar os saldos salvos
+ * Gera os lançamentos de movimentações anteriores ao livro-razão; depois disso,
+ * a conferência de saldos mostra as carteiras que não batem com as partidas
+ */
+export async function rebuildJournal(tx: Prisma.TransactionClient, userId: string) {
+  const [payments, transfers, adjustments, wallets] = await Promise.all([
+    tx.payment.findMany({
+      where: { userId },
+      include: { transaction: true },
+    }),
+    tx.transfer.findMany({
+      where: { userId, status: 'COMPLETED' },
+    }),
+    tx.walletAdjustment.findMany({
+      where: { userId, kind: { in: LEDGER_ADJUSTMENT_KINDS } },
+    }),
+    tx.wallet.findMany({
+      where: { userId },
+      select: { id: true, currency: true },
+    }),
+  ]);
+
+  const currencies = new Map(wallets.map((wallet) => [wallet.id, wallet.currency]));
+
+  const entries = [
+    ...payments.map((payment) =>
+      paymentEntry(payment.transaction, payment, currencies.get(payment.walletId)!)
+    ),
+    ...transfers.map((transfer) =>
+      transferEntry(transfer, currencies.get(transfer.fromWalletId)!, currencies.get(transfer.toWalletId)!)
+    ),
+    ...adjustments.map((adjustment) => adjustmentEntry(adjustment, currencies.get(adjustment.walletId)!)),
+  ];
+
+  entries.forEach(assertBalanced);
+
+  await tx.journalEntry.deleteMany({ where: { userId } });
+
+  for (const entry of entries) {
+    await writeJournalEntry(tx, entry);
+  }
+
+  return entries.length;
+}
+
+/**
+ * Balancete: saldo de cada conta (por moeda e, na conta WALLET, por carteira),
+ * se as partidas fecham em zero em cada moeda e se o saldo salvo de cada carteira
+ * bate com as suas partidas
+ */
+export async function getTrialBalance(tx: Prisma.TransactionClient, userId: string) {
+  const [groups, wallets] = await Promise.all([
+    tx.posting.groupBy({
+      by: ['account', 'currency', 'walletId'],
+      where: { entry: { userId } },
+      _sum: { amount: true },
+    }),
+    tx.wallet.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    }),
+  ]);
+
+  const accounts = groups
+    .map((group) => ({
+      account: group.account,
+      currency: group.currency,
+      walletId: group.walletId,
+      balance: group._sum.amount ?? ZERO,
+    }))
+    .sort((a, b) => a.account.localeCompare(b.account) || a.currency.localeCompare(b.currency));
+
+  const currencies = Array.from(new Set(accounts.map((account) => account.currency))).map((currency) => {
+    const total = sumMoney(
+      accounts.filter((account) => account.currency === currency).map((account) => account.balance)
+    );
+    return { currency, total, isBalanced: total.isZero() };
+  });
+
+  const walletChecks = wallets.map((wallet) => {
+    const ledgerBalance = accounts.find(
+      (account) => account.account === 'WALLET' && account.walletId === wallet.id
+    )?.balance ?? ZERO;
+
+    return {
+      walletId: wallet.id,
+      name: wallet.name,
+      currency: wallet.currency,
+      storedBalance: wallet.balance,
+      ledgerBalance,
+      difference: ledgerBalance.minus(wallet.balance),
+    };
+  });
+
+  return {
+    isBalanced: currencies.every((currency) => currency.isBalanced),
+    walletsInSync: walletChecks.every((check) => check.difference.isZero()),
+    currencies,
+    accounts,
+    wallets: walletChecks,
+  };
+}
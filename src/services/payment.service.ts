@@ -0,0 +1,247 @@
+/**
+ * Serviço de Pagamentos
+ * Registra pagamentos (totais ou parciais) de lançamentos e mantém
+ * o status do lançamento e o livro-razão (e com ele o saldo das carteiras) coerentes com eles
+ */
+
+import { Prisma, Payment, Transaction } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { ZERO } from '../lib/money';
+import {
+  JournalEntryInput,
+  buildPaymentEntry,
+  buildReversalEntries,
+  postJournalEntries,
+  postJournalEntry,
+  reverseJournalEntries,
+} from './ledger.service';
+
+export type PaymentStatus = 'OPEN' | 'PARTIAL' | 'PAID';
+
+interface PaymentInput {
+  amount?: Prisma.Decimal; // Padrão: valor pendente
+  date?: Date; // Padrão: agora
+  walletId?: string; // Padrão: carteira do lançamento
+  notes?: string;
+}
+
+/**
+ * Calcula o status do lançamento a partir do valor já pago
+ */
+export function getPaymentStatus(
+  amount: Prisma.Decimal,
+  paidAmount: Prisma.Decimal
+): PaymentStatus {
+  if (paidAmount.lessThanOrEqualTo(0)) {
+    return 'OPEN';
+  }
+
+  return paidAmount.greaterThanOrEqualTo(amount) ? 'PAID' : 'PARTIAL';
+}
+
+/**
+ * Recalcula valor pago, status e data de pagamento do lançamento a partir dos pagamentos
+ */
+export async function refreshPaymentStatus(
+  tx: Prisma.TransactionClient,
+  transactionId: string
+) {
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+  });
+
+  const payments = await tx.payment.aggregate({
+    where: { transactionId },
+    _sum: { amount: true },
+    _max: { date: true },
+  });
+
+  const paidAmount = payments._sum.amount ?? ZERO;
+  const status = getPaymentStatus(transaction.amount, paidAmount);
+
+  return tx.transaction.update({
+    where: { id: transactionId },
+    data: {
+      paidAmount,
+      status,
+      isPaid: status === 'PAID',
+      paymentDate: status === 'PAID' ? payments._max.date : null,
+    },
+  });
+}
+
+/**
+ * Registra um pagamento do lançamento e o lança no livro-razão (atualiza o saldo da carteira de origem)
+ */
+export async function addPayment(
+  tx: Prisma.TransactionClient,
+  transaction: Transaction,
+  input: PaymentInput = {}
+): Promise<Payment> {
+  const pending = transaction.amount.minus(transaction.paidAmount);
+
+  if (pending.lessThanOrEqualTo(0)) {
+    throw new AppError('Lançamento já está pago');
+  }
+
+  const amount = input.amount ?? pending;
+
+  if (amount.greaterThan(pending)) {
+    throw new AppError('Valor do pagamento excede o valor pendente do lançamento');
+  }
+
+  const walletId = input.walletId ?? transaction.walletId;
+  const wallet = await tx.wallet.findFirst({
+    where: { id: walletId, userId: transaction.userId },
+  });
+
+  if (!wallet) {
+    throw new AppError('Carteira não encontrada', 404);
+  }
+
+  if (!wallet.isActive) {
+    throw new AppError('Não é possível registrar pagamentos em uma carteira inativa');
+  }
+
+  // O valor do lançamento está na moeda da sua carteira
+  if (walletId !== transaction.walletId) {
+    const transactionWallet = await tx.wallet.findUniqueOrThrow({
+      where: { id: transaction.walletId },
+    });
+
+    if (transactionWallet.currency !== wallet.currency) {
+      throw new AppError('Pagamento deve ser feito por uma carteira na moeda do lançamento');
+    }
+  }
+
+  const payment = await tx.payment.create({
+    data: {
+      amount,
+      date: input.date ?? new Date(),
+      notes: input.notes,
+      userId: transaction.userId,
+      transactionId: transaction.id,
+      walletId,
+    },
+  });
+
+  // Se a carteira recusar o débito, a transação desfaz o pagamento
+  await postJournalEntry(tx, await buildPaymentEntry(tx, transaction, payment));
+  await refreshPaymentStatus(tx, transaction.id);
+
+  return payment;
+}
+
+/**
+ * Remove um pagamento e estorna seu lançamento (reverte o efeito no saldo da carteira)
+ */
+export async function removePayment(
+  tx: Prisma.TransactionClient,
+  transaction: Transaction,
+  payment: Payment
+) {
+  await reverseJournalEntries(tx, [payment.id]);
+  await tx.payment.delete({ where: { id: payment.id } });
+  await refreshPaymentStatus(tx, transaction.id);
+}
+
+/**
+ * Remove todos os pagamentos do lançamento estornando seus lançamentos
+ */
+export async function removeAllPayments(
+  tx: Prisma.TransactionClient,
+  transaction: Transaction
+) {
+  const payments = await tx.payment.findMany({
+    where: { transactionId: transaction.id },
+  });
+
+  await reverseJournalEntries(tx, payments.map((payment) => payment.id));
+
+  await tx.payment.deleteMany({ where: { transactionId: transaction.id } });
+  await refreshPaymentStatus(tx, transaction.id);
+
+  return payments.length;
+}
+
+/**
+ * Reaplica os pagamentos de um lançamento alterado (valor, carteira ou tipo)
+ * para que os saldos continuem iguais ao histórico de pagamentos:
+ * - tipo: o efeito de cada pagamento é revertido com o tipo antigo e aplicado com o novo
+ * - carteira: pagamentos feitos pela carteira antiga acompanham o lançamento
+ * - valor: lançamento totalmente pago continua pago (o último pagamento absorve a diferença);
+ *   lançamento parcialmente pago não pode ficar com valor menor que o já pago
+ */
+export async function syncPaymentsWithTransaction(
+  tx: Prisma.TransactionClient,
+  before: Transaction,
+  after: Transaction
+) {
+  const amountChanged = !before.amount.equals(after.amount);
+  const walletChanged = before.walletId !== after.walletId;
+  const typeChanged = before.type !== after.type;
+
+  if (before.paidAmount.isZero() || (!amountChanged && !walletChanged && !typeChanged)) {
+    return;
+  }
+
+  if (before.status !== 'PAID' && after.amount.lessThan(before.paidAmount)) {
+    throw new AppError('Valor do lançamento não pode ser menor que o valor já pago');
+  }
+
+  const payments = await tx.payment.findMany({
+    where: { transactionId: before.id },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  // Estorna os lançamentos atuais de todos os pagamentos
+  const entries: JournalEntryInput[] = await buildReversalEntries(
+    tx,
+    payments.map((payment) => payment.id)
+  );
+
+  // Ajusta os pagamentos de lançamentos totalmente pagos ao novo valor, a partir do mais recente
+  let difference = before.status === 'PAID' ? after.amount.minus(before.paidAmount) : ZERO;
+  const adjustedPayments = payments.map((payment) => {
+    let amount = payment.amount;
+
+    if (difference.greaterThan(0)) {
+      amount = amount.plus(difference);
+      difference = ZERO;
+    } else if (difference.lessThan(0)) {
+      const reduction = Prisma.Decimal.min(amount, difference.negated());
+      amount = amount.minus(reduction);
+      difference = difference.plus(reduction);
+    }
+
+    const walletId = walletChanged && payment.walletId === before.walletId
+      ? after.walletId
+      : payment.walletId;
+
+    return { ...payment, amount, walletId };
+  });
+
+  // Lança os pagamentos com os dados novos
+  for (const payment of adjustedPayments) {
+    if (!payment.amount.isZero()) {
+      entries.push(await buildPaymentEntry(tx, after, payment));
+    }
+  }
+
+  // Os saldos são conferidos e alterados de uma vez (o efeito líquido de cada carteira)
+  await postJournalEntries(tx, entries);
+
+  for (const payment of adjustedPayments) {
+    if (payment.amount.isZero()) {
+      await tx.payment.delete({ where: { id: payment.id } });
+      continue;
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { amount: payment.amount, walletId: payment.walletId },
+    });
+  }
+
+  await refreshPaymentStatus(tx, after.id);
+}
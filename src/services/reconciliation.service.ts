@@ -0,0 +1,254 @@
+/**
+ * Serviço de Conciliação
+ * Confere a carteira com o extrato bancário a partir dos itens marcados como compensados
+ * e protege os itens de conciliações concluídas
+ */
+
+import { Prisma, Reconciliation, Transaction, Transfer } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { ZERO, signedAmount, sumMoney } from '../lib/money';
+import { getCreditedAmount } from '../lib/currencies';
+import { LEDGER_ADJUSTMENT_KINDS } from './ledger.service';
+
+/**
+ * Impede alterações em lançamentos de uma conciliação concluída
+ */
+export async function assertNotReconciled(
+  tx: Prisma.TransactionClient,
+  transaction: Pick<Transaction, 'reconciliationId' | 'description'>
+) {
+  if (!transaction.reconciliationId) {
+    return;
+  }
+
+  const reconciliation = await tx.reconciliation.findUnique({
+    where: { id: transaction.reconciliationId },
+  });
+
+  if (reconciliation?.status === 'COMPLETED') {
+    throw new AppError(
+      `Lançamento "${transaction.description}" está conciliado com o extrato; desfaça a conciliação para alterá-lo`
+    );
+  }
+}
+
+/**
+ * Impede alterações em transferências conciliadas (em qualquer uma das carteiras)
+ */
+export async function assertTransferNotReconciled(
+  tx: Prisma.TransactionClient,
+  transfer: Pick<Transfer, 'fromReconciliationId' | 'toReconciliationId'>
+) {
+  const reconciliationIds = [transfer.fromReconciliationId, transfer.toReconciliationId]
+    .filter((id): id is string => id !== null);
+
+  if (reconciliationIds.length === 0) {
+    return;
+  }
+
+  const completed = await tx.reconciliation.count({
+    where: { id: { in: reconciliationIds }, status: 'COMPLETED' },
+  });
+
+  if (completed > 0) {
+    throw new AppError(
+      'Transferência está conciliada com o extrato; desfaça a conciliação para alterá-la'
+    );
+  }
+}
+
+/**
+ * Conciliação concluída anterior da carteira (ponto de partida da conciliação)
+ */
+function findPreviousReconciliation(tx: Prisma.TransactionClient, reconciliation: Reconciliation) {
+  return tx.reconciliation.findFirst({
+    where: {
+      walletId: reconciliation.walletId,
+      status: 'COMPLETED',
+      id: { not: reconciliation.id },
+      statementDate: { lt: reconciliation.statementDate },
+    },
+    orderBy: { statementDate: 'desc' },
+  });
+}
+
+/**
+ * Resumo da conciliação: itens compensados (com o valor que movimentaram na carteira),
+ * itens ainda não compensados até a data do extrato e a diferença para o saldo do extrato
+ * O saldo de partida é o saldo final da conciliação concluída anterior (ou zero, na primeira);
+ * o saldo inicial e os ajustes de saldo desde então entram sempre como compensados
+ */
+export async function getReconciliationSummary(
+  tx: Prisma.TransactionClient,
+  reconciliation: Reconciliation
+) {
+  const walletId = reconciliation.walletId;
+  const previous = await findPreviousReconciliation(tx, reconciliation);
+  const startingBalance = previous?.statementBalance ?? ZERO;
+
+  // Lançamentos entram pelo valor pago a partir desta carteira
+  const [adjustments, transactions, transfers] = await Promise.all([
+    tx.walletAdjustment.findMany({
+      where: {
+        walletId,
+        kind: { in: LEDGER_ADJUSTMENT_KINDS },
+        date: {
+          ...(previous && { gt: previous.statementDate }),
+          lte: reconciliation.statementDate,
+        },
+      },
+      orderBy: { date: 'asc' },
+    }),
+    tx.transaction.findMany({
+      where: {
+        userId: reconciliation.userId,
+        payments: { some: { walletId, date: { lte: reconciliation.statementDate } } },
+        OR: [{ reconciliationId: null }, { reconciliationId: reconciliation.id }],
+      },
+      include: {
+        category: true,
+        payments: { where: { walletId } },
+      },
+      orderBy: { dueDate: 'asc' },
+    }),
+    tx.transfer.findMany({
+      where: {
+        userId: reconciliation.userId,
+        status: 'COMPLETED',
+        date: { lte: reconciliation.statementDate },
+        OR: [
+          { fromWalletId: walletId, fromReconciliationId: null },
+          { fromWalletId: walletId, fromReconciliationId: reconciliation.id },
+          { toWalletId: walletId, toReconciliationId: null },
+          { toWalletId: walletId, toReconciliationId: reconciliation.id },
+        ],
+      },
+      include: {
+        fromWallet: true,
+        toWallet: true,
+      },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  const transactionItems = transactions.map(({ payments, ...transaction }) => ({
+    ...transaction,
+    clearedAmount: signedAmount(
+      transaction.type,
+      sumMoney(payments.map((payment) => payment.amount))
+    ),
+    isCleared: transaction.reconciliationId === reconciliation.id,
+  }));
+
+  const transferItems = transfers.map((transfer) => {
+    const isOutgoing = transfer.fromWalletId === walletId;
+
+    return {
+      ...transfer,
+      clearedAmount: isOutgoing ? transfer.amount.negated() : getCreditedAmount(transfer),
+      isCleared: (isOutgoing ? transfer.fromReconciliationId : transfer.toReconciliationId)
+        === reconciliation.id,
+    };
+  });
+
+  const clearedTotal = sumMoney([
+    ...adjustments.map((adjustment) => adjustment.difference),
+    ...transactionItems.filter((item) => item.isCleared).map((item) => item.clearedAmount),
+    ...transferItems.filter((item) => item.isCleared).map((item) => item.clearedAmount),
+  ]);
+  const clearedBalance = startingBalance.plus(clearedTotal);
+
+  return {
+    ...reconciliation,
+    startingBalance,
+    clearedTotal,
+    clearedBalance,
+    difference: reconciliation.statementBalance.minus(clearedBalance),
+    adjustments,
+    transactions: transactionItems,
+    transfers: transferItems,
+  };
+}
+
+/**
+ * Marca como compensados exatamente os lançamentos e transferências informados
+ * (os demais itens da conciliação voltam a ficar em aberto)
+ * Só aceita itens que movimentaram a carteira e que não pertencem a outra conciliação
+ */
+export async function setReconciliationItems(
+  tx: Prisma.TransactionClient,
+  reconciliation: Reconciliation,
+  transactionIds: string[],
+  transferIds: string[]
+) {
+  const walletId = reconciliation.walletId;
+
+  const [transactions, transfers] = await Promise.all([
+    tx.transaction.findMany({
+      where: {
+        id: { in: transactionIds },
+        userId: reconciliation.userId,
+        payments: { some: { walletId } },
+      },
+    }),
+    tx.transfer.findMany({
+      where: {
+        id: { in: transferIds },
+        userId: reconciliation.userId,
+        status: 'COMPLETED',
+        OR: [{ fromWalletId: walletId }, { toWalletId: walletId }],
+      },
+    }),
+  ]);
+
+  if (transactions.length !== new Set(transactionIds).size) {
+    throw new AppError('Lançamento não encontrado ou sem pagamentos nesta carteira', 404);
+  }
+
+  if (transfers.length !== new Set(transferIds).size) {
+    throw new AppError('Transferência não encontrada ou não movimenta esta carteira', 404);
+  }
+
+  const taken = transactions.find(
+    (transaction) => transaction.reconciliationId && transaction.reconciliationId !== reconciliation.id
+  );
+  if (taken) {
+    throw new AppError(`Lançamento "${taken.description}" já pertence a outra conciliação`);
+  }
+
+  const takenTransfer = transfers.find((transfer) => {
+    const side = transfer.fromWalletId === walletId
+      ? transfer.fromReconciliationId
+      : transfer.toReconciliationId;
+    return side && side !== reconciliation.id;
+  });
+  if (takenTransfer) {
+    throw new AppError('Transferência já pertence a outra conciliação');
+  }
+
+  await tx.transaction.updateMany({
+    where: { reconciliationId: reconciliation.id },
+    data: { reconciliationId: null },
+  });
+  await tx.transfer.updateMany({
+    where: { fromReconciliationId: reconciliation.id },
+    data: { fromReconciliationId: null },
+  });
+  await tx.transfer.updateMany({
+    where: { toReconciliationId: reconciliation.id },
+    data: { toReconciliationId: null },
+  });
+
+  await tx.transaction.updateMany({
+    where: { id: { in: transactionIds } },
+    data: { reconciliationId: reconciliation.id },
+  });
+  await tx.transfer.updateMany({
+    where: { id: { in: transferIds }, fromWalletId: walletId },
+    data: { fromReconciliationId: reconciliation.id },
+  });
+  await tx.transfer.updateMany({
+    where: { id: { in: transferIds }, toWalletId: walletId },
+    data: { toReconciliationId: reconciliation.id },
+  });
+}
@@ -0,0 +1,259 @@
+/**
+ * Serviço de Recorrência
+ * Gera os lançamentos e as transferências das séries recorrentes dentro do horizonte móvel
+ */
+
+import { Prisma, RecurrenceRule } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getCreditedAmount } from '../lib/currencies';
+import { resolveInvoiceId, usesInvoices } from './invoice.service';
+import { addPayment } from './payment.service';
+import { TransferTemplate, scheduleTransfer } from './transfer.service';
+import {
+  RecurrenceRuleOptions,
+  generateOccurrences,
+  getRecurrenceHorizon,
+  isRecurrenceComplete,
+} from '../lib/recurrence';
+
+/**
+ * Dados copiados para cada lançamento gerado pela série
+ */
+export interface OccurrenceTemplate {
+  description: string;
+  amount: Prisma.Decimal;
+  type: string;
+  recurringType: string | null;
+  notes: string | null;
+  walletId: string;
+  categoryId: string;
+  splits?: { categoryId: string; amount: Prisma.Decimal; notes: string | null }[];
+  tagIds?: string[];
+}
+
+/**
+ * Converte a regra salva no formato usado pelo cálculo de datas
+ */
+function toRuleOptions(rule: RecurrenceRule): RecurrenceRuleOptions {
+  return {
+    frequency: rule.frequency as RecurrenceRuleOptions['frequency'],
+    interval: rule.interval,
+    dayOfMonth: rule.dayOfMonth,
+    lastDayOfMonth: rule.lastDayOfMonth,
+    startDate: rule.startDate,
+    endDate: rule.endDate,
+    count: rule.count,
+  };
+}
+
+/**
+ * Gera os lançamentos ainda não criados da série até o horizonte
+ * A primeira ocorrência é sempre gerada, mesmo que esteja além do horizonte
+ * Atualiza a última data gerada e encerra a regra quando não há mais ocorrências
+ */
+export async function materializeRecurrence(
+  tx: Prisma.TransactionClient,
+  rule: RecurrenceRule,
+  template: OccurrenceTemplate
+) {
+  const options = toRuleOptions(rule);
+  const horizon = getRecurrenceHorizon();
+  const until = horizon > rule.startDate ? horizon : rule.startDate;
+
+  const dates = generateOccurrences(options, {
+    until,
+    after: rule.lastGeneratedDate ?? undefined,
+  });
+
+  const { splits, tagIds, ...fields } = template;
+  const created = [];
+
+  // Em cartões com fatura, cada ocorrência entra na fatura da sua data e é paga pelo cartão,
+  // como as compras avulsas (consome o limite na data da ocorrência)
+  const wallet = await tx.wallet.findUniqueOrThrow({ where: { id: template.walletId } });
+  const isCardPurchase = usesInvoices(wallet);
+
+  for (const dueDate of dates) {
+    const transaction = await tx.transaction.create({
+      data: {
+        ...fields,
+        invoiceId: await resolveInvoiceId(tx, wallet, dueDate),
+        ...(splits && splits.length > 0 && { splits: { create: splits } }),
+        ...(tagIds && tagIds.length > 0 && { tags: { connect: tagIds.map((id) => ({ id })) } }),
+        dueDate,
+        isPaid: false, // Recorrentes começam não pagos (no cartão, são pagos logo abaixo)
+        isRecurring: true,
+        recurringGroupId: rule.id,
+        userId: rule.userId,
+      },
+    });
+
+    if (isCardPurchase) {
+      await addPayment(tx, transaction, { date: dueDate });
+    }
+
+    created.push(
+      await tx.transaction.findUniqueOrThrow({
+        where: { id: transaction.id },
+        include: {
+          wallet: true,
+          category: true,
+        },
+      })
+    );
+  }
+
+  await updateGeneratedDates(tx, rule, dates);
+
+  return created;
+}
+
+/**
+ * Registra a última ocorrência gerada e encerra a regra quando não há mais ocorrências
+ */
+async function updateGeneratedDates(
+  tx: Prisma.TransactionClient,
+  rule: RecurrenceRule,
+  dates: Date[]
+) {
+  const options = toRuleOptions(rule);
+  const lastGeneratedDate = dates.length > 0 ? dates[dates.length - 1] : rule.lastGeneratedDate;
+
+  await tx.recurrenceRule.update({
+    where: { id: rule.id },
+    data: {
+      lastGeneratedDate,
+      isActive: !(lastGeneratedDate && isRecurrenceComplete(options, lastGeneratedDate)),
+    },
+  });
+}
+
+/**
+ * Gera as transferências ainda não criadas da série até o horizonte, como pendentes
+ * (movem os saldos só quando executadas na data ou confirmadas)
+ * A primeira ocorrência é sempre gerada, mesmo que esteja além do horizonte
+ */
+export async function materializeTransferRecurrence(
+  tx: Prisma.TransactionClient,
+  rule: RecurrenceRule,
+  template: TransferTemplate
+) {
+  const horizon = getRecurrenceHorizon();
+  const until = horizon > rule.startDate ? horizon : rule.startDate;
+
+  const dates = generateOccurrences(toRuleOptions(rule), {
+    until,
+    after: rule.lastGeneratedDate ?? undefined,
+  });
+
+  const created = [];
+  for (const date of dates) {
+    created.push(await scheduleTransfer(tx, rule.userId, template, date, rule.id));
+  }
+
+  await updateGeneratedDates(tx, rule, dates);
+
+  return created;
+}
+
+/**
+ * Estende uma série de transferências usando a transferência mais recente do grupo como modelo
+ * Retorna null se a série não tem mais transferências de onde copiar os dados
+ * ou se uma das carteiras foi desativada
+ */
+async function extendTransferRecurrence(rule: RecurrenceRule) {
+  const template = await prisma.transfer.findFirst({
+    where: { recurringGroupId: rule.id, userId: rule.userId },
+    include: { feeTransaction: true, fromWallet: true, toWallet: true },
+    orderBy: { date: 'desc' },
+  });
+
+  if (!template || !template.fromWallet.isActive || !template.toWallet.isActive) {
+    return null;
+  }
+
+  return prisma.$transaction((tx) =>
+    materializeTransferRecurrence(tx, rule, {
+      amount: template.amount,
+      toAmount: getCreditedAmount(template),
+      description: template.description,
+      fromWalletId: template.fromWalletId,
+      toWalletId: template.toWalletId,
+      fee: template.feeTransaction?.amount ?? null,
+      feeCategoryId: template.feeTransaction?.categoryId,
+    })
+  );
+}
+
+/**
+ * Estende uma série de lançamentos usando o lançamento mais recente do grupo como modelo
+ * Retorna null se a série não tem mais lançamentos de onde copiar os dados
+ * ou se a carteira foi desativada
+ */
+async function extendTransactionRecurrence(rule: RecurrenceRule) {
+  const template = await prisma.transaction.findFirst({
+    where: { recurringGroupId: rule.id, userId: rule.userId },
+    include: { splits: true, tags: true, wallet: true },
+    orderBy: { dueDate: 'desc' },
+  });
+
+  if (!template || !template.wallet.isActive) {
+    return null;
+  }
+
+  return prisma.$transaction((tx) =>
+    materializeRecurrence(tx, rule, {
+      description: template.description,
+      amount: template.amount,
+      type: template.type,
+      recurringType: template.recurringType,
+      notes: template.notes,
+      walletId: template.walletId,
+      categoryId: template.categoryId,
+      splits: template.splits.map((split) => ({
+        categoryId: split.categoryId,
+        amount: split.amount,
+        notes: split.notes,
+      })),
+      tagIds: template.tags.map((tag) => tag.id),
+    })
+  );
+}
+
+/**
+ * Estende todas as séries ativas até o horizonte móvel
+ * Usa o lançamento (ou a transferência) mais recente do grupo como modelo, assim
+ * alterações feitas nas ocorrências futuras são mantidas nas próximas geradas
+ * Séries sem modelo ou com carteira inativa são encerradas; a falha de uma série
+ * é registrada e não impede a extensão das demais
+ */
+export async function extendActiveRecurrences() {
+  const rules = await prisma.recurrenceRule.findMany({
+    where: { isActive: true },
+  });
+
+  let createdCount = 0;
+  let failed = 0;
+
+  for (const rule of rules) {
+    try {
+      const created = rule.kind === 'TRANSFER'
+        ? await extendTransferRecurrence(rule)
+        : await extendTransactionRecurrence(rule);
+
+      if (created) {
+        createdCount += created.length;
+      } else {
+        await prisma.recurrenceRule.update({
+          where: { id: rule.id },
+          data: { isActive: false },
+        });
+      }
+    } catch (error) {
+      console.error(`Erro ao estender a recorrência ${rule.id}:`, error);
+      failed += 1;
+    }
+  }
+
+  return { rules: rules.length, created: createdCount, failed };
+}
@@ -0,0 +1,248 @@
+/**
+ * Serviço de Transferências
+ * Agendamento e execução de transferências e tarifas de transferência (ex.: TED),
+ * lançadas como despesa paga pela carteira de origem
+ */
+
+import { Prisma, Transaction, Transfer, Wallet } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { AppError } from '../lib/errors';
+import { ZERO } from '../lib/money';
+import { buildTransferEntry, postJournalEntry } from './ledger.service';
+import { addPayment, removeAllPayments } from './payment.service';
+import { resolveInvoiceId, assertInvoiceNotPaid } from './invoice.service';
+import { assertNotReconciled } from './reconciliation.service';
+
+// Categoria usada nas tarifas quando nenhuma é informada (criada na primeira tarifa)
+export const TRANSFER_FEE_CATEGORY_NAME = 'Tarifas bancárias';
+
+interface TransferFeeInput {
+  amount: Prisma.Decimal;
+  categoryId?: string;
+  date: Date;
+  description: string | null;
+}
+
+/**
+ * Dados de uma transferência a agendar (também usados como modelo das recorrentes)
+ */
+export interface TransferTemplate {
+  amount: Prisma.Decimal;
+  toAmount: Prisma.Decimal; // Valor creditado na moeda da carteira de destino
+  description: string | null;
+  fromWalletId: string;
+  toWalletId: string;
+  fee?: Prisma.Decimal | null;
+  feeCategoryId?: string;
+}
+
+/**
+ * Verifica se a carteira de origem tem saldo para o débito
+ * refund é o que a própria transferência já debitou dela (na edição)
+ * Cartão de crédito usa o limite, conferido ao debitar
+ */
+export function hasSufficientBalance(
+  wallet: Wallet,
+  debit: Prisma.Decimal,
+  refund: Prisma.Decimal = ZERO
+) {
+  return wallet.type === 'CREDIT_CARD' || wallet.balance.plus(refund).greaterThanOrEqualTo(debit);
+}
+
+/**
+ * Categoria de despesa da tarifa: a informada (do usuário e do tipo despesa)
+ * ou a categoria padrão de tarifas, criada se ainda não existir
+ */
+async function resolveFeeCategoryId(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  categoryId?: string
+) {
+  if (categoryId) {
+    const category = await tx.category.findFirst({
+      where: { id: categoryId, userId },
+    });
+
+    if (!category) {
+      throw new AppError('Categoria da tarifa não encontrada', 404);
+    }
+
+    if (category.type !== 'EXPENSE') {
+      throw new AppError('Categoria da tarifa deve ser de despesa');
+    }
+
+    return category.id;
+  }
+
+  const existing = await tx.category.findFirst({
+    where: { userId, type: 'EXPENSE', name: TRANSFER_FEE_CATEGORY_NAME },
+  });
+
+  if (existing) {
+    return existing.id;
+  }
+
+  const category = await tx.category.create({
+    data: {
+      name: TRANSFER_FEE_CATEGORY_NAME,
+      type: 'EXPENSE',
+      userId,
+    },
+  });
+
+  return category.id;
+}
+
+/**
+ * Lança a tarifa como despesa da carteira de origem
+ * Em transferências agendadas (pay = false) a tarifa fica em aberto até a execução
+ */
+export async function createTransferFee(
+  tx: Prisma.TransactionClient,
+  fromWallet: Wallet,
+  fee: TransferFeeInput,
+  pay = true
+) {
+  const transaction = await tx.transaction.create({
+    data: {
+      description: fee.description ? `Tarifa: ${fee.description}` : 'Tarifa de transferência',
+      amount: fee.amount,
+      type: 'EXPENSE',
+      dueDate: fee.date,
+      invoiceId: await resolveInvoiceId(tx, fromWallet, fee.date),
+      userId: fromWallet.userId,
+      walletId: fromWallet.id,
+      categoryId: await resolveFeeCategoryId(tx, fromWallet.userId, fee.categoryId),
+    },
+  });
+
+  if (pay) {
+    await addPayment(tx, transaction, { date: fee.date });
+  }
+
+  return transaction;
+}
+
+/**
+ * Remove a tarifa, revertendo o pagamento na carteira de origem
+ */
+export async function removeTransferFee(tx: Prisma.TransactionClient, feeTransaction: Transaction) {
+  await assertInvoiceNotPaid(tx, feeTransaction);
+  await assertNotReconciled(tx, feeTransaction);
+
+  if (feeTransaction.paidAmount.greaterThan(0)) {
+    await removeAllPayments(tx, feeTransaction);
+  }
+
+  await tx.transaction.delete({
+    where: { id: feeTransaction.id },
+  });
+}
+
+/**
+ * Cria a transferência como pendente (sem mover saldos), com a tarifa em aberto
+ */
+export async function scheduleTransfer(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  template: TransferTemplate,
+  date: Date,
+  recurringGroupId: string | null = null
+) {
+  let feeTransactionId: string | null = null;
+
+  if (template.fee && template.fee.greaterThan(0)) {
+    const fromWallet = await tx.wallet.findUniqueOrThrow({ where: { id: template.fromWalletId } });
+    const feeTransaction = await createTransferFee(
+      tx,
+      fromWallet,
+      {
+        amount: template.fee,
+        categoryId: template.feeCategoryId,
+        date,
+        description: template.description,
+      },
+      false
+    );
+    feeTransactionId = feeTransaction.id;
+  }
+
+  return tx.transfer.create({
+    data: {
+      amount: template.amount,
+      toAmount: template.toAmount,
+      description: template.description,
+      date,
+      status: 'PENDING',
+      recurringGroupId,
+      userId,
+      fromWalletId: template.fromWalletId,
+      toWalletId: template.toWalletId,
+      feeTransactionId,
+    },
+  });
+}
+
+/**
+ * Executa uma transferência pendente: confere o saldo da origem (valor e tarifa),
+ * lança a transferência no livro-razão (move os saldos) e paga a tarifa
+ */
+export async function executeTransfer(tx: Prisma.TransactionClient, transfer: Transfer) {
+  if (transfer.status !== 'PENDING') {
+    throw new AppError('Transferência já foi executada');
+  }
+
+  const [fromWallet, feeTransaction] = await Promise.all([
+    tx.wallet.findUniqueOrThrow({ where: { id: transfer.fromWalletId } }),
+    transfer.feeTransactionId
+      ? tx.transaction.findUnique({ where: { id: transfer.feeTransactionId } })
+      : null,
+  ]);
+
+  const fee = feeTransaction ? feeTransaction.amount.minus(feeTransaction.paidAmount) : ZERO;
+
+  if (!hasSufficientBalance(fromWallet, transfer.amount.plus(fee))) {
+    throw new AppError('Saldo insuficiente na carteira de origem');
+  }
+
+  await postJournalEntry(tx, await buildTransferEntry(tx, transfer));
+
+  if (feeTransaction && fee.greaterThan(0)) {
+    await addPayment(tx, feeTransaction, { date: transfer.date });
+  }
+
+  return tx.transfer.update({
+    where: { id: transfer.id },
+    data: { status: 'COMPLETED' },
+  });
+}
+
+/**
+ * Executa as transferências agendadas que já chegaram à data
+ * Transferências recusadas (ex.: saldo insuficiente) continuam pendentes
+ * para a próxima rodada ou para confirmação manual
+ */
+export async function executeDueTransfers(now: Date = new Date()) {
+  const transfers = await prisma.transfer.findMany({
+    where: { status: 'PENDING', date: { lte: now } },
+    orderBy: { date: 'asc' },
+  });
+
+  let executed = 0;
+  let failed = 0;
+
+  for (const transfer of transfers) {
+    try {
+      await prisma.$transaction((tx) => executeTransfer(tx, transfer));
+      executed += 1;
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      console.warn(`Transferência agendada ${transfer.id} não executada: ${error.message}`);
+      failed += 1;
+    }
+  }
+
+  return { executed, failed };
+}
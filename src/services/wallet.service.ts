@@ -0,0 +1,128 @@
+/**
+ * Serviço de Carteiras
+ * União de carteiras: leva o histórico de uma carteira (lançamentos, pagamentos,
+ * transferências e ajustes de saldo) para outra e desativa a carteira de origem
+ */
+
+import { Prisma, Wallet } from '@prisma/client';
+import { AppError } from '../lib/errors';
+import { moveWalletPostings } from './ledger.service';
+import { assertTransferNotReconciled } from './reconciliation.service';
+import { removeTransferFee } from './transfer.service';
+
+/**
+ * Une a carteira de origem à de destino
+ * - as conciliações concluídas ficam na origem como histórico (os itens seguem conciliados)
+ * - transferências entre as duas carteiras são excluídas (tarifas já pagas continuam como despesa)
+ * - o saldo da origem passa para o destino pelo livro-razão e a origem fica inativa
+ */
+export async function mergeWallets(
+  tx: Prisma.TransactionClient,
+  source: Wallet,
+  target: Wallet
+) {
+  if (source.id === target.id) {
+    throw new AppError('Carteira de destino deve ser diferente da carteira de origem');
+  }
+
+  if (!target.isActive) {
+    throw new AppError('Carteira de destino está inativa');
+  }
+
+  if (source.currency !== target.currency) {
+    throw new AppError('Só é possível unir carteiras da mesma moeda');
+  }
+
+  // As faturas pertencem ao cartão e não podem ser levadas para outra carteira
+  if (source.type === 'CREDIT_CARD' || target.type === 'CREDIT_CARD') {
+    throw new AppError('Cartões de crédito não podem ser unidos a outras carteiras');
+  }
+
+  const inProgress = await tx.reconciliation.count({
+    where: { walletId: source.id, status: 'IN_PROGRESS' },
+  });
+
+  if (inProgress > 0) {
+    throw new AppError('Conclua ou exclua a conciliação em andamento da carteira de origem antes de uni-la');
+  }
+
+  const selfTransfers = await tx.transfer.findMany({
+    where: {
+      OR: [
+        { fromWalletId: source.id, toWalletId: target.id },
+        { fromWalletId: target.id, toWalletId: source.id },
+      ],
+    },
+    include: { feeTransaction: true },
+  });
+
+  // Transferências conciliadas (em qualquer uma das carteiras) não podem ser excluídas
+  for (const transfer of selfTransfers) {
+    await assertTransferNotReconciled(tx, transfer);
+  }
+
+  const selfTransferIds = selfTransfers.map((transfer) => transfer.id);
+
+  // Move os saldos: estorna os lançamentos da origem e os lança de novo no destino
+  await moveWalletPostings(tx, source.id, target.id, selfTransferIds);
+
+  // Tarifas de transferências agendadas ainda não foram pagas e saem com elas
+  for (const transfer of selfTransfers) {
+    if (transfer.status === 'PENDING' && transfer.feeTransaction) {
+      await removeTransferFee(tx, transfer.feeTransaction);
+    }
+  }
+
+  await tx.transfer.deleteMany({
+    where: { id: { in: selfTransferIds } },
+  });
+
+  // Lançamentos importados do mesmo arquivo nas duas carteiras não podem repetir o identificador
+  const targetFitIds = await tx.transaction.findMany({
+    where: { walletId: target.id, fitId: { not: null } },
+    select: { fitId: true },
+  });
+  await tx.transaction.updateMany({
+    where: { walletId: source.id, fitId: { in: targetFitIds.map((transaction) => transaction.fitId!) } },
+    data: { fitId: null },
+  });
+
+  const [transactions, payments, transfersFrom, transfersTo, adjustments] = await Promise.all([
+    tx.transaction.updateMany({
+      where: { walletId: source.id },
+      data: { walletId: target.id },
+    }),
+    tx.payment.updateMany({
+      where: { walletId: source.id },
+      data: { walletId: target.id },
+    }),
+    tx.transfer.updateMany({
+      where: { fromWalletId: source.id },
+      data: { fromWalletId: target.id },
+    }),
+    tx.transfer.updateMany({
+      where: { toWalletId: source.id },
+      data: { toWalletId: target.id },
+    }),
+    tx.walletAdjustment.updateMany({
+      where: { walletId: source.id },
+      data: { walletId: target.id },
+    }),
+  ]);
+
+  await tx.wallet.update({
+    where: { id: source.id },
+    data: { isActive: false },
+  });
+
+  return {
+    wallet: await tx.wallet.findUniqueOrThrow({ where: { id: target.id } }),
+    moved: {
+      transactions: transactions.count,
+      payments: payments.count,
+      transfers: transfersFrom.count + transfersTo.count,
+      adjustments: adjustments.count,
+    },
+    removedTransfers: selfTransferIds.length,
+  };
+}